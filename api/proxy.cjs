@@ -114,6 +114,51 @@ const isAllowedTarget = (value) => {
   }
 };
 
+// multipart 字段由前端以 JSON 传入（文件为 base64），这里还原为 FormData，由 fetch 生成 boundary
+const toFormData = (fields) => {
+  const form = new FormData();
+  for (const field of fields) {
+    if (!field || typeof field.name !== 'string') continue;
+    if (typeof field.data === 'string') {
+      const blob = new Blob([Buffer.from(field.data, 'base64')], { type: String(field.mimeType || 'application/octet-stream') });
+      form.append(field.name, blob, String(field.filename || 'file'));
+    } else {
+      form.append(field.name, String(field.value ?? ''));
+    }
+  }
+  return form;
+};
+
+const toUpstreamRequest = (headers, body, multipart) => {
+  const upstreamHeaders = headers && typeof headers === 'object' ? { ...headers } : {};
+  if (!Array.isArray(multipart)) {
+    return {
+      headers: upstreamHeaders,
+      body: body == null ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+    };
+  }
+  // 保留调用方的 Content-Type 会丢失 boundary
+  Object.keys(upstreamHeaders).forEach((key) => {
+    if (key.toLowerCase() === 'content-type') delete upstreamHeaders[key];
+  });
+  return { headers: upstreamHeaders, body: toFormData(multipart) };
+};
+
+const isEventStream = (contentType) => String(contentType || '').toLowerCase().includes('text/event-stream');
+
+const pipeResponseBody = async (upstreamResponse, res) => {
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('X-Accel-Buffering', 'no');
+  if (typeof res.flushHeaders === 'function') res.flushHeaders();
+
+  if (upstreamResponse.body) {
+    for await (const chunk of upstreamResponse.body) {
+      res.write(chunk);
+    }
+  }
+  res.end();
+};
+
 module.exports = async (req, res) => {
   setCorsHeaders(res);
 
@@ -140,7 +185,7 @@ module.exports = async (req, res) => {
     return;
   }
 
-  const { url, method = 'POST', headers = {}, body, timeoutMs } = payload || {};
+  const { url, method = 'POST', headers = {}, body, multipart, timeoutMs, stream } = payload || {};
 
   if (!url || typeof url !== 'string') {
     res.statusCode = 400;
@@ -152,7 +197,7 @@ module.exports = async (req, res) => {
   if (!isAllowedTarget(url)) {
     res.statusCode = 403;
     res.setHeader('Content-Type', 'application/json; charset=utf-8');
-    res.end(JSON.stringify({ error: { message: '目标 URL 不在允许列表中' } }));
+    res.end(JSON.stringify({ error: { message: '目标 URL 不在允许列表中', code: 'PROXY_TARGET_NOT_ALLOWED' } }));
     return;
   }
 
@@ -164,11 +209,18 @@ module.exports = async (req, res) => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), requestTimeoutMs);
 
+  // 浏览器取消请求（连接提前关闭）时同步中止上游请求
+  let clientAborted = false;
+  res.on('close', () => {
+    if (res.writableFinished) return;
+    clientAborted = true;
+    controller.abort();
+  });
+
   try {
     const upstreamResponse = await fetch(url, {
       method: String(method || 'POST').toUpperCase(),
-      headers: headers && typeof headers === 'object' ? headers : {},
-      body: body == null ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+      ...toUpstreamRequest(headers, body, multipart),
       signal: controller.signal,
     });
 
@@ -181,9 +233,26 @@ module.exports = async (req, res) => {
       res.setHeader('Content-Type', 'application/json; charset=utf-8');
     }
 
+    // 透传限流 / 服务不可用时的建议等待时间，供前端重试使用
+    const retryAfter = upstreamResponse.headers.get('retry-after');
+    if (retryAfter) {
+      res.setHeader('Retry-After', retryAfter);
+    }
+
+    if (stream === true || isEventStream(upstreamContentType)) {
+      await pipeResponseBody(upstreamResponse, res);
+      return;
+    }
+
     const text = await upstreamResponse.text();
     res.end(text);
   } catch (error) {
+    // 客户端已断开，或流式透传过程中出错时响应头已发出，只能直接结束响应
+    if (clientAborted || res.headersSent) {
+      res.end();
+      return;
+    }
+
     const isAbort = error && typeof error === 'object' && error.name === 'AbortError';
     res.statusCode = isAbort ? 504 : 502;
     res.setHeader('Content-Type', 'application/json; charset=utf-8');
@@ -191,6 +260,7 @@ module.exports = async (req, res) => {
       JSON.stringify({
         error: {
           message: isAbort ? '请求超时' : '网络请求失败',
+          code: isAbort ? 'PROXY_TIMEOUT' : 'PROXY_NETWORK_ERROR',
         },
       })
     );
@@ -1,26 +1,89 @@
 import { useState } from 'react'
 import { ChatHeader } from '@/features/chat/components/ChatHeader'
+import { ConversationSidebar } from '@/features/chat/components/ConversationSidebar'
 import { MessageList } from '@/features/chat/components/MessageList'
 import { PromptPanel } from '@/features/chat/components/PromptPanel'
 import { LoadingOverlay } from '@/features/chat/components/LoadingOverlay'
 import { SettingsDialog } from '@/features/chat/components/SettingsDialog'
-import { useChatSession } from '@/features/chat/hooks/useChatSession'
-import { apiConfig, type ModelName } from '@/features/chat/utils/apiConfig'
+import { CompareTargetsDialog } from '@/features/chat/components/CompareTargetsDialog'
+import { SystemInstructionDialog } from '@/features/chat/components/SystemInstructionDialog'
+import { UsageDialog } from '@/features/chat/components/UsageDialog'
+import { useChatSession, type BatchProgress } from '@/features/chat/hooks/useChatSession'
+import { apiConfig, supportsImageOptions, type ModelName } from '@/features/chat/utils/apiConfig'
+import type { ChatErrorAction, ImageSize } from '@/features/chat/types'
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K']
+
+const buildBatchMessage = ({ done, total, isComparison }: BatchProgress) =>
+  isComparison
+    ? `正在对比 ${total} 个目标（已完成 ${done}/${total}）…`
+    : `正在生成 ${total} 个变体（已完成 ${done}/${total}）…`
 
 function App() {
   const { state, actions } = useChatSession()
   const [settingsOpen, setSettingsOpen] = useState(!apiConfig.isConfigured())
   const [model, setModel] = useState<ModelName>(apiConfig.getModel())
+  const [profiles, setProfiles] = useState(() => apiConfig.getProfiles())
+  const [activeProfileId, setActiveProfileId] = useState(() => apiConfig.getActiveProfile()?.id || '')
+  const [compareDialogOpen, setCompareDialogOpen] = useState(false)
+  const [systemInstructionOpen, setSystemInstructionOpen] = useState(false)
+  const [usageOpen, setUsageOpen] = useState(false)
+  const [compareTargetCount, setCompareTargetCount] = useState(() => apiConfig.getCompareTargets().length)
+  const [sidebarOpen, setSidebarOpen] = useState(() => window.matchMedia('(min-width: 768px)').matches)
+
+  const refreshProfiles = () => {
+    setProfiles(apiConfig.getProfiles())
+    setActiveProfileId(apiConfig.getActiveProfile()?.id || '')
+  }
 
   const handleModelChange = (value: ModelName) => {
     setModel(value)
     apiConfig.setModel(value)
+    // 模型选择作为当前配置档案的默认模型保存
+    if (apiConfig.getActiveProfile()) {
+      apiConfig.syncActiveProfile()
+    }
+  }
+
+  const handleSwitchProfile = (id: string) => {
+    apiConfig.activateProfile(id)
+    setModel(apiConfig.getModel())
+    refreshProfiles()
   }
 
   const handleSettingsOpenChange = (open: boolean) => {
     setSettingsOpen(open)
     if (!open) {
       setModel(apiConfig.getModel())
+      refreshProfiles()
+    }
+  }
+
+  // 错误消息上的处理建议
+  const handleErrorAction = (action: ChatErrorAction) => {
+    if (action === 'open-settings') {
+      handleSettingsOpenChange(true)
+      return
+    }
+    if (action === 'switch-to-server') {
+      if (!window.confirm('服务端转发会把 API Key 随请求发送到本站服务端，确定改用服务端转发？')) return
+      apiConfig.setRequestMode('server')
+      if (apiConfig.getActiveProfile()) {
+        apiConfig.syncActiveProfile()
+      }
+      refreshProfiles()
+      return
+    }
+    const index = IMAGE_SIZES.indexOf(state.imageSize)
+    if (index > 0) {
+      actions.setImageSize(IMAGE_SIZES[index - 1])
+    }
+  }
+
+  const handleCompareDialogOpenChange = (open: boolean) => {
+    setCompareDialogOpen(open)
+    if (!open) {
+      setCompareTargetCount(apiConfig.getCompareTargets().length)
     }
   }
 
@@ -30,15 +93,42 @@ function App() {
         loading={state.loading}
         onReset={actions.reset}
         onOpenSettings={() => handleSettingsOpenChange(true)}
+        onOpenUsage={() => setUsageOpen(true)}
+        sidebarOpen={sidebarOpen}
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+        onSwitchProfile={handleSwitchProfile}
+        onToggleSidebar={() => setSidebarOpen((open) => !open)}
       />
 
-      <main className="flex flex-1 overflow-hidden">
+      <main className="flex flex-1 overflow-hidden relative">
+        {/* 会话列表：移动端浮层显示，桌面端占据左侧 */}
+        {sidebarOpen && (
+          <div className="absolute inset-y-0 left-0 z-30 shadow-lg md:static md:shadow-none">
+            <ConversationSidebar
+              conversations={state.conversations}
+              activeId={state.sessionId}
+              activeTitle={state.title}
+              loading={state.loading}
+              onNew={actions.reset}
+              onSelect={actions.switchConversation}
+              onRename={actions.renameConversation}
+              onTogglePin={actions.togglePinConversation}
+              onDelete={actions.deleteConversation}
+              onExport={actions.exportConversation}
+              onImport={actions.importConversation}
+            />
+          </div>
+        )}
+
         <div className="flex-1 flex flex-col min-w-0 relative pb-[calc(var(--prompt-panel-height,160px)+16px)]">
           <MessageList
             messages={state.messages}
             onDownload={actions.downloadImage}
             onDeleteMessage={actions.deleteMessage}
             onRetry={actions.retryRequest}
+            onSelectVariant={actions.selectVariant}
+            onErrorAction={handleErrorAction}
             hasSavedConversation={state.hasSavedConversation}
             savedConversationAt={state.savedConversationAt}
             onRestoreSavedConversation={actions.restoreSavedConversation}
@@ -47,8 +137,14 @@ function App() {
 
           {/* 加载覆盖层 */}
           <LoadingOverlay
-            show={state.loading}
-            imageSize={apiConfig.getType() === 'openai' ? '1K' : state.imageSize}
+            show={state.loading && !state.streamingMessageId}
+            message={
+              state.batchProgress
+                ? [buildBatchMessage(state.batchProgress), state.requestNotice].filter(Boolean).join(' ')
+                : state.requestNotice ?? undefined
+            }
+            imageSize={supportsImageOptions(apiConfig.getCurrentTarget()) ? state.imageSize : '1K'}
+            onCancel={actions.cancelRequest}
           />
         </div>
       </main>
@@ -57,23 +153,43 @@ function App() {
         prompt={state.prompt}
         onPromptChange={actions.setPrompt}
         onSend={actions.sendPrompt}
+        onCancel={actions.cancelRequest}
         loading={state.loading}
         uploads={state.uploadedImages}
         onAddFiles={actions.addUploads}
         onRemoveUpload={actions.removeUpload}
+        onToggleUploadMask={actions.toggleUploadMask}
         aspectRatio={state.aspectRatio}
         imageSize={state.imageSize}
         model={model}
         forceImageGuidance={state.forceImageGuidance}
+        variationCount={state.variationCount}
+        compareMode={state.compareMode}
+        compareTargetCount={compareTargetCount}
         onAspectChange={actions.setAspectRatio}
         onSizeChange={actions.setImageSize}
         onModelChange={handleModelChange}
         onToggleForceImageGuidance={actions.setForceImageGuidance}
+        onVariationCountChange={actions.setVariationCount}
+        onToggleCompareMode={actions.setCompareMode}
+        onConfigureCompare={() => handleCompareDialogOpenChange(true)}
+        hasSystemInstruction={Boolean(state.systemInstruction)}
+        onOpenSystemInstruction={() => setSystemInstructionOpen(true)}
+        generationParams={state.generationParams}
+        onGenerationParamsChange={actions.setGenerationParams}
         canEditLast={!!state.lastImageData}
         onEditLast={() => actions.sendPrompt('edit')}
       />
 
       <SettingsDialog open={settingsOpen} onOpenChange={handleSettingsOpenChange} />
+      <CompareTargetsDialog open={compareDialogOpen} onOpenChange={handleCompareDialogOpenChange} />
+      <SystemInstructionDialog
+        open={systemInstructionOpen}
+        value={state.systemInstruction}
+        onOpenChange={setSystemInstructionOpen}
+        onSave={actions.setSystemInstruction}
+      />
+      <UsageDialog open={usageOpen} messages={state.messages} onOpenChange={setUsageOpen} />
     </div>
   )
 }
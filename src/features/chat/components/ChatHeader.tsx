@@ -1,17 +1,46 @@
-import { RotateCcw, Settings, Loader2, Github } from 'lucide-react'
+import { MessageSquarePlus, PanelLeftClose, PanelLeftOpen, Settings, Loader2, Github, BarChart3 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { ApiProfile } from '@/features/chat/utils/apiConfig'
 
 type ChatHeaderProps = {
   loading: boolean
   onReset: () => void
   onOpenSettings?: () => void
+  onOpenUsage?: () => void
+  sidebarOpen?: boolean
+  onToggleSidebar?: () => void
+  profiles?: ApiProfile[]
+  activeProfileId?: string
+  onSwitchProfile?: (id: string) => void
 }
 
-export function ChatHeader({ loading, onReset, onOpenSettings }: ChatHeaderProps) {
+export function ChatHeader({
+  loading,
+  onReset,
+  onOpenSettings,
+  onOpenUsage,
+  sidebarOpen,
+  onToggleSidebar,
+  profiles = [],
+  activeProfileId,
+  onSwitchProfile,
+}: ChatHeaderProps) {
   return (
     <header className="flex items-center justify-between border-b bg-background/95 backdrop-blur px-3 py-2 md:px-4 md:py-3">
       <div className="flex items-center gap-3">
+        {onToggleSidebar && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onToggleSidebar}
+            title={sidebarOpen ? '收起会话列表' : '展开会话列表'}
+            className="h-8 w-8 md:h-9 md:w-9"
+          >
+            {sidebarOpen ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeftOpen className="h-4 w-4" />}
+          </Button>
+        )}
         <h1 className="text-lg md:text-xl font-bold flex items-center gap-2">
           <span className="md:hidden">✨ Banana Pro</span>
           <span className="hidden md:inline">✨ Banana Pro 图像创作</span>
@@ -24,6 +53,21 @@ export function ChatHeader({ loading, onReset, onOpenSettings }: ChatHeaderProps
         )}
       </div>
       <div className="flex items-center gap-1 md:gap-2 text-sm text-muted-foreground">
+        {/* 配置档案快速切换 */}
+        {onSwitchProfile && profiles.length > 1 && (
+          <Select value={activeProfileId || undefined} onValueChange={onSwitchProfile} disabled={loading}>
+            <SelectTrigger className="h-8 w-[110px] md:w-[160px] text-xs" title="切换配置">
+              <SelectValue placeholder="选择配置" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <a
           href="https://github.com/Nothing1024/gemini-3-pro-image-preview-demo"
           target="_blank"
@@ -34,13 +78,18 @@ export function ChatHeader({ loading, onReset, onOpenSettings }: ChatHeaderProps
             <span><Github className="h-4 w-4" /></span>
           </Button>
         </a>
+        {onOpenUsage && (
+          <Button variant="ghost" size="icon" onClick={onOpenUsage} title="用量统计" className="h-8 w-8 md:h-9 md:w-9">
+            <BarChart3 className="h-4 w-4" />
+          </Button>
+        )}
         {onOpenSettings && (
           <Button variant="ghost" size="icon" onClick={onOpenSettings} title="设置" className="h-8 w-8 md:h-9 md:w-9">
             <Settings className="h-4 w-4" />
           </Button>
         )}
-        <Button variant="ghost" size="icon" onClick={onReset} title="重置对话" disabled={loading} className="h-8 w-8 md:h-9 md:w-9">
-          <RotateCcw className="h-4 w-4" />
+        <Button variant="ghost" size="icon" onClick={onReset} title="新建对话" disabled={loading} className="h-8 w-8 md:h-9 md:w-9">
+          <MessageSquarePlus className="h-4 w-4" />
         </Button>
       </div>
     </header>
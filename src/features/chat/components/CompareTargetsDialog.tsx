@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  apiConfig,
+  MAX_COMPARE_TARGETS,
+  MIN_COMPARE_TARGETS,
+  type ApiType,
+  type CompareTarget,
+  type RequestMode,
+} from '../utils/apiConfig';
+import { isAllowedProxyTargetUrl } from '@/config/proxyAllowlist';
+
+type CompareTargetsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const createTargetId = () => `target_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+export function CompareTargetsDialog({ open, onOpenChange }: CompareTargetsDialogProps) {
+  const [targets, setTargets] = useState<CompareTarget[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setTargets(apiConfig.getCompareTargets());
+      setError('');
+    }
+  }, [open]);
+
+  const updateTarget = (id: string, patch: Partial<CompareTarget>) => {
+    setTargets((prev) => prev.map((target) => (target.id === id ? { ...target, ...patch } : target)));
+  };
+
+  const addTarget = () => {
+    if (targets.length >= MAX_COMPARE_TARGETS) return;
+    // 默认复制当前设置，通常只需要改模型
+    setTargets((prev) => [...prev, { ...apiConfig.getCurrentTarget(), id: createTargetId() }]);
+    setError('');
+  };
+
+  const removeTarget = (id: string) => {
+    setTargets((prev) => prev.filter((target) => target.id !== id));
+  };
+
+  const handleSave = () => {
+    if (targets.length > 0 && targets.length < MIN_COMPARE_TARGETS) {
+      setError(`请至少配置 ${MIN_COMPARE_TARGETS} 个目标`);
+      return;
+    }
+    const incomplete = targets.findIndex((target) => !target.url.trim() || !target.key.trim() || !target.model.trim());
+    if (incomplete !== -1) {
+      setError(`目标 ${incomplete + 1} 缺少 URL、Key 或模型`);
+      return;
+    }
+    apiConfig.setCompareTargets(targets);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>对比目标</DialogTitle>
+          <DialogDescription>
+            开启对比模式后，同一提示词与参考图会同时发送给以下 {MIN_COMPARE_TARGETS}~{MAX_COMPARE_TARGETS} 个目标，结果按列展示。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {targets.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">尚未配置对比目标</p>
+          )}
+
+          {targets.map((target, idx) => {
+            const serverUrlBlocked =
+              target.requestMode === 'server' && target.url.trim() && !isAllowedProxyTargetUrl(target.url.trim());
+
+            return (
+              <div key={target.id} className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">目标 {idx + 1}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 hover:text-destructive"
+                    onClick={() => removeTarget(target.id)}
+                    title="删除目标"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-1.5">
+                    <Label>API 类型</Label>
+                    <Select value={target.apiType} onValueChange={(value: ApiType) => updateTarget(target.id, { apiType: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="gemini">Gemini (原生格式)</SelectItem>
+                        <SelectItem value="openai">OpenAI 兼容格式</SelectItem>
+                        <SelectItem value="openai-images">OpenAI Images API</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>模型</Label>
+                    <Input
+                      value={target.model}
+                      onChange={(e) => updateTarget(target.id, { model: e.target.value })}
+                      placeholder="gemini-3-pro-image-preview"
+                      list={target.apiType === 'openai' ? 'compare-openai-models' : undefined}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>API URL</Label>
+                    <Input
+                      value={target.url}
+                      onChange={(e) => updateTarget(target.id, { url: e.target.value })}
+                      placeholder="https://www.packyapi.com"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>API Key</Label>
+                    <Input
+                      type="password"
+                      value={target.key}
+                      onChange={(e) => updateTarget(target.id, { key: e.target.value })}
+                      placeholder="输入您的 API Key"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label>请求方式</Label>
+                    <Select
+                      value={target.requestMode}
+                      onValueChange={(value: RequestMode) => updateTarget(target.id, { requestMode: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="client">客户端直连</SelectItem>
+                        <SelectItem value="server">服务端转发</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {serverUrlBlocked && (
+                  <p className="text-xs text-destructive">当前 URL 不在服务端转发白名单中，该目标的请求会被拒绝。</p>
+                )}
+              </div>
+            );
+          })}
+
+          <datalist id="compare-openai-models">
+            {apiConfig.getOpenAIModelList().map((model) => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full gap-2"
+            onClick={addTarget}
+            disabled={targets.length >= MAX_COMPARE_TARGETS}
+          >
+            <Plus className="h-4 w-4" />
+            添加目标（复制当前设置）
+          </Button>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleSave}>保存</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
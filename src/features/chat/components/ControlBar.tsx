@@ -1,20 +1,41 @@
-import { Edit, Monitor, Ratio, Bot, Sparkles } from "lucide-react"
+import { useState } from "react"
+import { Edit, Monitor, Ratio, Bot, Sparkles, Layers, Columns3, Settings2, ScrollText, SlidersHorizontal, RotateCcw, RefreshCw } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Separator } from "@/components/ui/separator"
-import { type ModelName, apiConfig } from "@/features/chat/utils/apiConfig"
+import { type ModelName, apiConfig, supportsImageEdit, supportsImageOptions } from "@/features/chat/utils/apiConfig"
+import { fetchAvailableModels } from "@/features/chat/services/modelCatalog"
 import type { AspectRatio, ImageSize } from "@/features/chat/types"
+import type { GeminiSamplingParams } from "@/types/gemini"
+import {
+  GENERATION_PARAM_LABELS,
+  GENERATION_PARAM_LIMITS,
+  hasGenerationParams,
+  type GenerationParamKey,
+} from "@/features/chat/utils/generationParams"
+import { cn } from "@/lib/utils"
 
 type ControlBarProps = {
   aspectRatio: AspectRatio
   imageSize: ImageSize
   model: ModelName
   forceImageGuidance: boolean
+  variationCount: number
+  compareMode: boolean
+  compareTargetCount: number
   onAspectChange: (value: AspectRatio) => void
   onSizeChange: (value: ImageSize) => void
   onModelChange: (model: ModelName) => void
   onToggleForceImageGuidance: (value: boolean) => void
+  onVariationCountChange: (value: number) => void
+  onToggleCompareMode: (value: boolean) => void
+  onConfigureCompare: () => void
+  hasSystemInstruction: boolean
+  onOpenSystemInstruction: () => void
+  generationParams: GeminiSamplingParams
+  onGenerationParamsChange: (value: GeminiSamplingParams) => void
   onEdit: () => void
   canEdit: boolean
   loading: boolean
@@ -25,50 +46,95 @@ export function ControlBar({
   imageSize,
   model,
   forceImageGuidance,
+  variationCount,
+  compareMode,
+  compareTargetCount,
   onAspectChange,
   onSizeChange,
   onModelChange,
   onToggleForceImageGuidance,
+  onVariationCountChange,
+  onToggleCompareMode,
+  onConfigureCompare,
+  hasSystemInstruction,
+  onOpenSystemInstruction,
+  generationParams,
+  onGenerationParamsChange,
   onEdit,
   canEdit,
   loading,
 }: ControlBarProps) {
   const apiType = apiConfig.getType()
+  const showImageOptions = supportsImageOptions(apiConfig.getCurrentTarget())
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const [refreshingModels, setRefreshingModels] = useState(false)
+  const [modelsError, setModelsError] = useState("")
+  const customized = hasGenerationParams(generationParams)
 
-  const openAIModelList = apiType === "openai" ? apiConfig.getOpenAIModelList() : []
+  const updateParam = (key: GenerationParamKey, value: string) => {
+    const parsed = value.trim() === "" ? undefined : Number(value)
+    onGenerationParamsChange({ ...generationParams, [key]: parsed })
+  }
+
+  // 手动维护的模型 + 从服务商获取的模型（按配置档案缓存）
+  const modelOptions = apiConfig.getModelOptions()
+
+  const refreshModels = async () => {
+    setRefreshingModels(true)
+    setModelsError("")
+    try {
+      apiConfig.setFetchedModels(await fetchAvailableModels(apiConfig.getCurrentTarget()))
+    } catch (error) {
+      setModelsError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setRefreshingModels(false)
+    }
+  }
+
+  const fetchedAt = apiConfig.getFetchedModels()?.fetchedAt
+  const refreshTitle = modelsError
+    || (fetchedAt ? `刷新模型列表（上次获取：${new Date(fetchedAt).toLocaleString()}）` : "从服务商获取可用模型")
 
   return (
     <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-muted-foreground px-1">
-      {/* 模型选择（OpenAI 兼容模式）- 下拉列表 */}
-      {apiType === "openai" && (
-        <div className="flex items-center gap-2">
-          <Bot className="h-4 w-4" />
-          <Select
-            value={openAIModelList.includes(model) ? model : undefined}
-            onValueChange={(value) => onModelChange(value as ModelName)}
-          >
-            <SelectTrigger className="h-8 w-[240px] border-transparent bg-transparent hover:bg-muted/50 focus:ring-0 px-2 shadow-none data-[state=open]:bg-muted">
-              <SelectValue placeholder={openAIModelList.length === 0 ? "暂无可用模型" : "选择模型"} />
-            </SelectTrigger>
-            <SelectContent>
-              {openAIModelList.length === 0 ? (
-                <SelectItem value="__empty_openai_model_list__" disabled>
-                  请先在设置中添加模型
+      {/* 模型选择 - 下拉列表 */}
+      <div className="flex items-center gap-2">
+        <Bot className="h-4 w-4" />
+        <Select
+          value={modelOptions.includes(model) ? model : undefined}
+          onValueChange={(value) => onModelChange(value as ModelName)}
+        >
+          <SelectTrigger className="h-8 w-[240px] border-transparent bg-transparent hover:bg-muted/50 focus:ring-0 px-2 shadow-none data-[state=open]:bg-muted">
+            <SelectValue placeholder={modelOptions.length === 0 ? "暂无可用模型" : "选择模型"} />
+          </SelectTrigger>
+          <SelectContent>
+            {modelOptions.length === 0 ? (
+              <SelectItem value="__empty_model_list__" disabled>
+                请先在设置中添加模型
+              </SelectItem>
+            ) : (
+              modelOptions.map((item) => (
+                <SelectItem key={item} value={item}>
+                  {item}
                 </SelectItem>
-              ) : (
-                openAIModelList.map((item) => (
-                  <SelectItem key={item} value={item}>
-                    {item}
-                  </SelectItem>
-                ))
-              )}
-            </SelectContent>
-          </Select>
-        </div>
-      )}
+              ))
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={refreshModels}
+          disabled={refreshingModels}
+          className={cn("h-7 w-7 hover:bg-muted/50", modelsError && "text-destructive")}
+          title={refreshTitle}
+        >
+          <RefreshCw className={cn("h-3.5 w-3.5", refreshingModels && "animate-spin")} />
+        </Button>
+      </div>
 
       {/* 宽高比选择 */}
-      {apiType === "gemini" && (
+      {showImageOptions && (
         <div className="flex items-center gap-2">
           <Ratio className="h-4 w-4" />
           <Select value={aspectRatio} onValueChange={(value) => onAspectChange(value as AspectRatio)}>
@@ -88,7 +154,7 @@ export function ControlBar({
       )}
 
       {/* 图像大小选择 */}
-      {apiType === "gemini" && (
+      {showImageOptions && (
         <div className="flex items-center gap-2">
           <Monitor className="h-4 w-4" />
           <Select value={imageSize} onValueChange={(value) => onSizeChange(value as ImageSize)}>
@@ -104,6 +170,74 @@ export function ControlBar({
         </div>
       )}
 
+      {/* 变体数量：同一提示词并行生成多张（对比模式下不可用） */}
+      {!compareMode && (
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          <Select value={String(variationCount)} onValueChange={(value) => onVariationCountChange(Number(value))}>
+            <SelectTrigger className="h-8 w-[96px] border-transparent bg-transparent hover:bg-muted/50 focus:ring-0 px-2 shadow-none data-[state=open]:bg-muted">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">单张</SelectItem>
+              <SelectItem value="2">2 个变体</SelectItem>
+              <SelectItem value="3">3 个变体</SelectItem>
+              <SelectItem value="4">4 个变体</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* 对比模式：同时发送给多个目标 */}
+      <div className="flex items-center gap-2">
+        <Columns3 className="h-4 w-4" />
+        <div
+          className="flex items-center gap-2 cursor-pointer"
+          onClick={() => onToggleCompareMode(!compareMode)}
+        >
+          <span className="text-xs">对比模式{compareMode ? `（${compareTargetCount} 个目标）` : ""}</span>
+          <Switch
+            id="compare-mode"
+            checked={compareMode}
+            onCheckedChange={onToggleCompareMode}
+            className="scale-75 origin-left"
+          />
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onConfigureCompare}
+          className="h-7 w-7 hover:bg-muted/50"
+          title="配置对比目标"
+        >
+          <Settings2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {/* 系统指令（人设） */}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onOpenSystemInstruction}
+        className={`h-8 px-2 text-xs hover:bg-muted/50 ${hasSystemInstruction ? "text-primary" : ""}`}
+        title={hasSystemInstruction ? "已设置系统指令，点击编辑" : "设置系统指令"}
+      >
+        <ScrollText className="h-4 w-4 mr-2" />
+        系统指令{hasSystemInstruction ? "（已启用）" : ""}
+      </Button>
+
+      {/* 高级参数：采样参数 */}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setShowAdvanced((value) => !value)}
+        className={cn("h-8 px-2 text-xs hover:bg-muted/50", customized && "text-primary")}
+        title="温度、Top P / Top K、种子、候选数"
+      >
+        <SlidersHorizontal className="h-4 w-4 mr-2" />
+        高级参数{customized ? "（已自定义）" : ""}
+      </Button>
+
       {/* 强制出图引导开关 */}
       <div className="flex items-center gap-2">
         <Sparkles className="h-4 w-4" />
@@ -122,7 +256,7 @@ export function ControlBar({
       </div>
 
       {/* 编辑上一张按钮 */}
-      {apiType === "gemini" && canEdit && (
+      {supportsImageEdit(apiType) && canEdit && (
         <>
           <Separator orientation="vertical" className="h-4 hidden sm:block" />
           <Button
@@ -137,6 +271,47 @@ export function ControlBar({
           </Button>
         </>
       )}
+
+      {showAdvanced && (
+        <div className="flex w-full flex-wrap items-center gap-x-4 gap-y-2">
+          {(Object.keys(GENERATION_PARAM_LIMITS) as GenerationParamKey[])
+            // OpenAI 兼容格式没有 top_k；Images API 只支持候选数（n）
+            .filter((key) =>
+              apiType === "openai-images" ? key === "candidateCount" : apiType === "gemini" || key !== "topK"
+            )
+            .map((key) => {
+              const { min, max, step } = GENERATION_PARAM_LIMITS[key]
+              return (
+                <label key={key} className="flex items-center gap-1.5 text-xs">
+                  {GENERATION_PARAM_LABELS[key]}
+                  <Input
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={generationParams[key] ?? ""}
+                    onChange={(e) => updateParam(key, e.target.value)}
+                    placeholder={key === "candidateCount" ? "1" : "默认"}
+                    className={cn("h-7 px-2 text-xs", key === "seed" ? "w-28" : "w-20")}
+                  />
+                </label>
+              )
+            })}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onGenerationParamsChange({})}
+            disabled={!customized}
+            className="h-7 px-2 text-xs hover:bg-muted/50"
+          >
+            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+            恢复默认
+          </Button>
+          <span className="w-full text-[10px] text-muted-foreground/70">
+            留空使用模型默认值；固定种子可复现结果，批量变体的种子依次递增；候选数大于 1 时单次请求返回多个结果。
+          </span>
+        </div>
+      )}
     </div>
   )
 }
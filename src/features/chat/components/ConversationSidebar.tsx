@@ -0,0 +1,192 @@
+import { useRef, useState, type ChangeEvent, type KeyboardEvent } from 'react'
+import { Check, Download, MessageSquare, Pencil, Pin, PinOff, Plus, Trash2, Upload, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+import type { ConversationSummary } from '@/features/chat/utils/chatStorage'
+
+type ConversationSidebarProps = {
+  conversations: ConversationSummary[]
+  activeId: string
+  activeTitle: string
+  loading: boolean
+  onNew: () => void
+  onSelect: (id: string) => void
+  onRename: (id: string, title: string) => void
+  onTogglePin: (id: string) => void
+  onDelete: (id: string) => void
+  onExport: (id: string) => void
+  onImport: (file: File) => void
+}
+
+const formatUpdatedAt = (iso: string) => {
+  const date = new Date(iso)
+  if (Number.isNaN(date.getTime())) return ''
+  const now = new Date()
+  return date.toDateString() === now.toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString()
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeId,
+  activeTitle,
+  loading,
+  onNew,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onExport,
+  onImport,
+}: ConversationSidebarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftTitle, setDraftTitle] = useState('')
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id)
+    setDraftTitle(conversation.id === activeId && activeTitle ? activeTitle : conversation.title)
+  }
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim())
+    }
+    setEditingId(null)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      commitEditing()
+    } else if (e.key === 'Escape') {
+      setEditingId(null)
+    }
+  }
+
+  const handleDelete = (conversation: ConversationSummary) => {
+    if (window.confirm(`删除会话「${conversation.title}」？此操作无法撤销。`)) {
+      onDelete(conversation.id)
+    }
+  }
+
+  const handleImportChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onImport(file)
+    e.target.value = ''
+  }
+
+  // 当前会话尚未保存（如刚新建）时不会出现在列表中，单独展示一项
+  const activeSaved = conversations.some((c) => c.id === activeId)
+
+  return (
+    <aside className="flex h-full w-64 shrink-0 flex-col border-r bg-background md:bg-muted/20 pb-[calc(var(--prompt-panel-height,160px)+16px)]">
+      <div className="flex items-center gap-2 p-3">
+        <Button variant="outline" className="flex-1 justify-start gap-2" onClick={onNew} disabled={loading}>
+          <Plus className="h-4 w-4" />
+          新建对话
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="shrink-0"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          title="导入对话（JSON 归档）"
+        >
+          <Upload className="h-4 w-4" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImportChange}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2 pb-3 space-y-1 custom-scrollbar">
+        {!activeSaved && (
+          <div className="flex items-center gap-2 rounded-md bg-accent px-2 py-2 text-sm">
+            <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="truncate">{activeTitle || '新对话'}</span>
+          </div>
+        )}
+
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeId
+          const title = isActive && activeTitle ? activeTitle : conversation.title
+
+          if (editingId === conversation.id) {
+            return (
+              <div key={conversation.id} className="flex items-center gap-1 px-1 py-1">
+                <Input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  onBlur={commitEditing}
+                  className="h-8 text-sm"
+                />
+                <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onMouseDown={(e) => e.preventDefault()} onClick={commitEditing} title="保存">
+                  <Check className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onMouseDown={(e) => e.preventDefault()} onClick={() => setEditingId(null)} title="取消">
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )
+          }
+
+          return (
+            <div
+              key={conversation.id}
+              className={cn(
+                'group flex items-center gap-2 rounded-md px-2 py-2 text-sm transition-colors',
+                isActive ? 'bg-accent' : 'hover:bg-accent/50',
+                loading && !isActive ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'
+              )}
+              onClick={() => !loading && onSelect(conversation.id)}
+              title={title}
+            >
+              {conversation.pinned ? (
+                <Pin className="h-4 w-4 shrink-0 text-primary" />
+              ) : (
+                <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{title}</div>
+                <div className="text-[10px] text-muted-foreground">
+                  {formatUpdatedAt(conversation.updatedAt)} · {conversation.messageCount} 条消息
+                </div>
+              </div>
+              <div className="hidden shrink-0 items-center group-hover:flex" onClick={(e) => e.stopPropagation()}>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onTogglePin(conversation.id)} title={conversation.pinned ? '取消置顶' : '置顶'}>
+                  {conversation.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onExport(conversation.id)} title="导出">
+                  <Download className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => startEditing(conversation)} title="重命名">
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 hover:text-destructive"
+                  onClick={() => handleDelete(conversation)}
+                  disabled={loading && isActive}
+                  title="删除"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,67 @@
+import { ShieldAlert } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { FinishInfo, SafetyRating } from '@/features/chat/types'
+import { HARM_CATEGORY_LABELS } from '../utils/safety'
+
+const FINISH_REASON_LABELS: Record<string, string> = {
+  MAX_TOKENS: '输出达到长度上限',
+  SAFETY: '触发安全策略',
+  IMAGE_SAFETY: '图片触发安全策略',
+  RECITATION: '疑似复现受版权保护的内容',
+  PROHIBITED_CONTENT: '包含违禁内容',
+  IMAGE_PROHIBITED_CONTENT: '图片包含违禁内容',
+  BLOCKLIST: '命中屏蔽词',
+  SPII: '包含敏感个人信息',
+  LANGUAGE: '不支持的语言',
+  NO_IMAGE: '模型未生成图片',
+  IMAGE_OTHER: '图片因其他原因未生成',
+  MALFORMED_FUNCTION_CALL: '函数调用格式错误',
+  OTHER: '其他原因',
+}
+
+const PROBABILITY_LABELS: Record<string, string> = {
+  NEGLIGIBLE: '可忽略',
+  LOW: '低',
+  MEDIUM: '中',
+  HIGH: '高',
+}
+
+export const getFinishReasonLabel = (reason: string) => FINISH_REASON_LABELS[reason] || reason
+
+// 只展示有风险或触发拦截的评级
+const isNotableRating = (rating: SafetyRating) =>
+  rating.blocked || (rating.probability !== 'NEGLIGIBLE' && rating.probability !== 'HARM_PROBABILITY_UNSPECIFIED')
+
+export function FinishNotice({ info }: { info: FinishInfo }) {
+  const ratings = (info.safetyRatings || []).filter(isNotableRating)
+
+  return (
+    <div
+      className={cn(
+        "mt-3 rounded-lg border px-3 py-2 text-xs space-y-1.5",
+        info.blocked
+          ? "border-destructive/40 bg-destructive/5 text-destructive"
+          : "border-amber-500/40 bg-amber-500/5 text-amber-700 dark:text-amber-400"
+      )}
+    >
+      <div className="flex items-center gap-1.5 font-medium">
+        <ShieldAlert className="h-3.5 w-3.5 shrink-0" />
+        {info.blocked ? '回复被拦截' : '回复可能不完整'}：{getFinishReasonLabel(info.reason)}
+        <span className="font-mono opacity-60">({info.reason})</span>
+      </div>
+      {info.message && <p className="opacity-80">{info.message}</p>}
+      {ratings.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {ratings.map((rating, idx) => (
+            <span key={idx} className="rounded-full bg-background/60 px-2 py-0.5">
+              {HARM_CATEGORY_LABELS[rating.category] || rating.category}：
+              {PROBABILITY_LABELS[rating.probability] || rating.probability}
+              {rating.blocked ? ' · 已拦截' : ''}
+            </span>
+          ))}
+        </div>
+      )}
+      {info.blocked && <p className="opacity-80">可调整提示词或参考图后点击「重新生成」。</p>}
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { Globe, Search } from 'lucide-react'
+import type { GeminiGroundingMetadata } from '@/types/gemini'
+
+const toMarkdownUrl = (uri: string) => uri.replace(/\(/g, '%28').replace(/\)/g, '%29')
+
+/**
+ * 在有依据的句子后插入 [n] 引用链接。
+ * 接口给出的 startIndex / endIndex 是 UTF-8 字节偏移，中文下按字符截取会错位，这里按 segment.text 在文本中定位。
+ */
+export const addCitations = (text: string, metadata?: GeminiGroundingMetadata): string => {
+  const chunks = metadata?.groundingChunks || []
+  const supports = metadata?.groundingSupports || []
+  if (!text || chunks.length === 0 || supports.length === 0) return text
+
+  const inserts: Array<{ at: number; marker: string }> = []
+  let cursor = 0
+  supports.forEach((support) => {
+    const segment = support.segment?.text
+    const indices = (support.groundingChunkIndices || []).filter((idx) => chunks[idx]?.web?.uri)
+    if (!segment || indices.length === 0) return
+
+    const start = text.indexOf(segment, cursor)
+    if (start === -1) return
+    cursor = start + segment.length
+    inserts.push({
+      at: cursor,
+      marker: indices.map((idx) => ` [[${idx + 1}]](${toMarkdownUrl(chunks[idx].web!.uri!)})`).join(''),
+    })
+  })
+
+  return inserts.reduceRight((result, { at, marker }) => result.slice(0, at) + marker + result.slice(at), text)
+}
+
+export function GroundingSources({ metadata }: { metadata: GeminiGroundingMetadata }) {
+  const queries = metadata.webSearchQueries || []
+  // 保留原始序号，与正文中的 [n] 引用对应
+  const sources = (metadata.groundingChunks || [])
+    .map((chunk, idx) => ({ idx, web: chunk.web }))
+    .filter((source) => source.web?.uri)
+  const entryPoint = metadata.searchEntryPoint?.renderedContent
+
+  return (
+    <div className="mt-3 space-y-2 border-t pt-3 text-xs">
+      <div className="flex items-center gap-1.5 font-medium text-muted-foreground">
+        <Globe className="h-3.5 w-3.5" />
+        搜索来源
+      </div>
+
+      {queries.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {queries.map((query, idx) => (
+            <span key={idx} className="flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-muted-foreground">
+              <Search className="h-3 w-3" />
+              {query}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {sources.length > 0 && (
+        <ol className="space-y-1">
+          {sources.map(({ idx, web }) => (
+            <li key={idx} className="flex min-w-0 items-baseline gap-1.5">
+              <span className="shrink-0 font-mono text-muted-foreground">[{idx + 1}]</span>
+              <a
+                href={web!.uri}
+                target="_blank"
+                rel="noreferrer"
+                className="truncate text-primary hover:underline"
+                title={web!.uri}
+              >
+                {web!.title || web!.domain || web!.uri}
+              </a>
+              {web!.domain && web!.domain !== web!.title && (
+                <span className="shrink-0 text-muted-foreground/70">{web!.domain}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Google 要求原样展示搜索建议；放在沙箱 iframe 中隔离其样式与脚本，链接在新标签页打开 */}
+      {entryPoint && (
+        <iframe
+          title="Google 搜索建议"
+          sandbox="allow-popups allow-popups-to-escape-sandbox"
+          srcDoc={`<base target="_blank">${entryPoint}`}
+          className="h-16 w-full border-0 bg-transparent"
+        />
+      )}
+    </div>
+  )
+}
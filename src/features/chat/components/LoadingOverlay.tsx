@@ -1,10 +1,12 @@
-import { Loader2 } from "lucide-react"
+import { Loader2, Square } from "lucide-react"
+import { Button } from "@/components/ui/button"
 import type { ImageSize } from "@/features/chat/types"
 
 type LoadingOverlayProps = {
   show: boolean
   message?: string
   imageSize?: ImageSize
+  onCancel?: () => void
 }
 
 const buildEstimate = (imageSize?: ImageSize) => {
@@ -13,7 +15,7 @@ const buildEstimate = (imageSize?: ImageSize) => {
   return `预计耗时：${imageSize}${map[imageSize]}（参考值）· 最长可等待 20 分钟，请耐心等待`
 }
 
-export function LoadingOverlay({ show, message = "正在生成图像，请稍候…", imageSize }: LoadingOverlayProps) {
+export function LoadingOverlay({ show, message = "正在生成图像，请稍候…", imageSize, onCancel }: LoadingOverlayProps) {
   // 不显示时不渲染DOM
   if (!show) return null
 
@@ -28,6 +30,12 @@ export function LoadingOverlay({ show, message = "正在生成图像，请稍候
           <span className="font-medium text-sm">{message}</span>
           <span className="text-xs text-muted-foreground">{buildEstimate(imageSize)}</span>
         </div>
+        {onCancel && (
+          <Button variant="outline" size="sm" className="ml-2 h-8 shrink-0" onClick={onCancel}>
+            <Square className="h-3.5 w-3.5 mr-1.5 fill-current" />
+            停止生成
+          </Button>
+        )}
       </div>
     </div>
   )
@@ -2,12 +2,26 @@ import { useState, type HTMLAttributes, type MouseEvent, type ReactNode } from '
 import ReactMarkdown from 'react-markdown'
 import type { Components } from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import { Download, Copy, Check, Trash2, RefreshCw } from 'lucide-react'
+import { Download, Copy, Check, Trash2, RefreshCw, Loader2, Maximize2, AlertCircle, Timer, Shuffle, Brain, ChevronDown, Coins } from 'lucide-react'
 import { ImageLightbox } from '@/components/ImageLightbox'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
-import type { ChatMessage, RetryContext } from '@/features/chat/types'
+import type {
+  ChatErrorAction,
+  ChatErrorInfo,
+  ChatMessage,
+  ChatMessagePart,
+  ChatMessageVariant,
+  RetryContext,
+  TokenUsage,
+} from '@/features/chat/types'
+import { ERROR_ACTION_LABELS, ERROR_KIND_LABELS } from '../services/errors'
 import { getThumbSize } from '../utils/thumb'
+import { formatGenerationParams } from '../utils/generationParams'
+import { estimateCost, findModelPrice, formatCost, priceTable } from '../utils/pricing'
+import { sumUsage } from '../utils/usageStats'
+import { FinishNotice, getFinishReasonLabel } from './FinishNotice'
+import { GroundingSources, addCitations } from './GroundingSources'
 
 const USER_IMAGE_MAX_EDGE = 80
 
@@ -34,12 +48,24 @@ const markdownComponents: Components = {
   },
 }
 
-function getDisplayParts(message: ChatMessage) {
-  if (message.parts && message.parts.length > 0) {
-    return message.parts
+// 正文片段（不含思考过程），消息与对比列共用
+function getDisplayParts({ parts, text, imageData }: Pick<ChatMessage, 'parts' | 'text' | 'imageData'>): ChatMessagePart[] {
+  const displayParts: ChatMessagePart[] =
+    parts && parts.length > 0
+      ? parts.filter((p) => !p.thought && (p.text || p.image?.data))
+      : text
+        ? [{ text }]
+        : []
+
+  // 旧记录只有 imageData：放在文本之后展示
+  if (imageData && !displayParts.some((p) => p.image)) {
+    displayParts.push({ image: { data: imageData, mimeType: 'image/png' } })
   }
-  if (message.text) return [{ text: message.text }]
-  return []
+  return displayParts
+}
+
+function getThoughtParts(parts?: ChatMessagePart[]): ChatMessagePart[] {
+  return (parts || []).filter((p) => p.thought && (p.text || p.image?.data))
 }
 
 function buildUserMarkdown(message: ChatMessage): string {
@@ -78,17 +104,329 @@ function UploadedThumb({ src, alt }: { src: string; alt: string }) {
   )
 }
 
+function GeneratedImage({ data, mimeType, onDownload }: { data: string; mimeType?: string; onDownload: (base64: string, mimeType?: string) => void }) {
+  const [lightboxOpen, setLightboxOpen] = useState(false)
+  const src = `data:${mimeType || 'image/png'};base64,${data}`
+
+  return (
+    <>
+      <div className="relative group" onClick={() => setLightboxOpen(true)}>
+        <img
+          src={src}
+          alt="generated"
+          className="w-full h-auto max-w-md rounded-xl border shadow-sm bg-muted/10 min-h-[100px] cursor-pointer hover:brightness-95"
+        />
+        <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-all duration-200 flex gap-2">
+          <Button
+            size="icon"
+            variant="secondary"
+            className="h-9 w-9 shadow-lg backdrop-blur-sm bg-background/80 hover:bg-background"
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation()
+              onDownload(data, mimeType)
+            }}
+            title="下载图片"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <ImageLightbox src={src} open={lightboxOpen} onOpenChange={setLightboxOpen} />
+    </>
+  )
+}
+
+// 思考过程：默认折叠，流式接收时展开便于观察
+function ThinkingPanel({ parts, streaming, onDownload }: { parts: ChatMessagePart[]; streaming?: boolean; onDownload: (base64: string, mimeType?: string) => void }) {
+  const [expanded, setExpanded] = useState<boolean | null>(null)
+  const open = expanded ?? Boolean(streaming)
+  const imageCount = parts.filter((p) => p.image).length
+
+  return (
+    <div className="mb-3 rounded-lg border border-dashed bg-muted/30">
+      <button
+        type="button"
+        onClick={() => setExpanded(!open)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-xs text-muted-foreground hover:text-foreground"
+      >
+        <Brain className="h-3.5 w-3.5" />
+        <span>{streaming ? "正在思考…" : "思考过程"}</span>
+        {imageCount > 0 && <span className="text-muted-foreground/70">· {imageCount} 张草图</span>}
+        <ChevronDown className={cn("ml-auto h-3.5 w-3.5 transition-transform", open && "rotate-180")} />
+      </button>
+      {open && (
+        <div className="space-y-2 border-t border-dashed px-3 py-2">
+          {parts.map((part, idx) =>
+            part.image ? (
+              <GeneratedImage key={idx} data={part.image.data} mimeType={part.image.mimeType} onDownload={onDownload} />
+            ) : (
+              <div key={idx} className="prose prose-sm prose-neutral dark:prose-invert max-w-none text-xs text-muted-foreground">
+                <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                  {part.text}
+                </ReactMarkdown>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function getVariantImage(variant: ChatMessageVariant) {
+  const imagePart = variant.parts?.find((p) => p.image?.data && !p.thought)
+  if (imagePart?.image) return imagePart.image
+  return variant.imageData ? { data: variant.imageData, mimeType: 'image/png' } : null
+}
+
+type VariantGridProps = {
+  variants: ChatMessageVariant[]
+  selected: number
+  onSelect: (index: number) => void
+  onDownload: (base64: string, mimeType?: string) => void
+}
+
+function VariantGrid({ variants, selected, onSelect, onDownload }: VariantGridProps) {
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null)
+  const previewImage = previewIndex != null ? getVariantImage(variants[previewIndex]) : null
+
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-xs text-muted-foreground">共 {variants.length} 个变体，点击选用其中一个作为后续编辑的基础</p>
+      <div className="grid grid-cols-2 gap-2 max-w-xl">
+        {variants.map((variant, idx) => {
+          const image = getVariantImage(variant)
+          const isSelected = idx === selected
+
+          return (
+            <div
+              key={idx}
+              className={cn(
+                "relative group rounded-xl border overflow-hidden bg-muted/10 aspect-square flex items-center justify-center",
+                variant.error ? "border-destructive/50 cursor-not-allowed" : "cursor-pointer",
+                isSelected && "ring-2 ring-primary ring-offset-2 ring-offset-background",
+              )}
+              onClick={() => !variant.error && onSelect(idx)}
+              title={variant.error ? variant.error : isSelected ? "当前选用" : "选用此变体"}
+            >
+              {image ? (
+                <img
+                  src={`data:${image.mimeType || 'image/png'};base64,${image.data}`}
+                  alt={`variant ${idx + 1}`}
+                  className="w-full h-full object-cover"
+                />
+              ) : variant.error ? (
+                <div className="flex flex-col items-center gap-1 p-3 text-center text-xs text-destructive">
+                  <AlertCircle className="h-5 w-5" />
+                  <span className="line-clamp-3">{variant.error}</span>
+                </div>
+              ) : (
+                <p className="p-3 text-xs text-muted-foreground line-clamp-6">
+                  {variant.text ||
+                    (variant.finishInfo ? `未返回内容：${getFinishReasonLabel(variant.finishInfo.reason)}` : '（无内容）')}
+                </p>
+              )}
+
+              <span className="absolute left-2 top-2 rounded-full bg-background/80 px-2 py-0.5 text-[10px] font-medium shadow-sm">
+                {isSelected ? `✓ 变体 ${idx + 1}` : `变体 ${idx + 1}`}
+              </span>
+
+              {image && (
+                <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-all duration-200 flex gap-1">
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    className="h-7 w-7 shadow-lg backdrop-blur-sm bg-background/80 hover:bg-background"
+                    onClick={(e: MouseEvent<HTMLButtonElement>) => {
+                      e.stopPropagation()
+                      setPreviewIndex(idx)
+                    }}
+                    title="查看大图"
+                  >
+                    <Maximize2 className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    className="h-7 w-7 shadow-lg backdrop-blur-sm bg-background/80 hover:bg-background"
+                    onClick={(e: MouseEvent<HTMLButtonElement>) => {
+                      e.stopPropagation()
+                      onDownload(image.data, image.mimeType)
+                    }}
+                    title="下载图片"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+      {previewImage && (
+        <ImageLightbox
+          src={`data:${previewImage.mimeType || 'image/png'};base64,${previewImage.data}`}
+          open={previewIndex != null}
+          onOpenChange={(open) => !open && setPreviewIndex(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+function UsageBadge({ usage }: { usage: TokenUsage[] }) {
+  const totals = sumUsage(usage)
+  const prices = priceTable.list()
+  const costs = usage.map((item) => estimateCost(item, findModelPrice(item.model, prices)))
+  const cost = costs.every((item) => item !== null) ? costs.reduce<number>((sum, item) => sum + (item ?? 0), 0) : null
+  const breakdown = [
+    `输入 ${totals.promptTokens}`,
+    `输出 ${totals.outputTokens}（其中图片 ${totals.imageTokens}）`,
+    `思考 ${totals.thoughtTokens}`,
+    `合计 ${totals.totalTokens}`,
+    usage.length > 1 ? `共 ${usage.length} 次请求` : '',
+    cost === null ? '部分模型未设置价格，无法估算费用' : `估算费用 ${formatCost(cost)}`,
+  ]
+
+  return (
+    <span className="flex items-center gap-1 text-[10px] text-muted-foreground/60 font-mono" title={breakdown.filter(Boolean).join("\n")}>
+      <Coins className="h-3 w-3" />
+      {totals.totalTokens.toLocaleString()} tokens
+      {cost !== null && ` · ${formatCost(cost)}`}
+    </span>
+  )
+}
+
+const formatLatency = (ms?: number) => (ms == null ? '' : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`)
+
+type ComparisonColumnsProps = {
+  variants: ChatMessageVariant[]
+  selected?: number
+  onSelect: (index: number) => void
+  onDownload: (base64: string, mimeType?: string) => void
+}
+
+function ComparisonColumns({ variants, selected, onSelect, onDownload }: ComparisonColumnsProps) {
+  return (
+    <div
+      className={cn(
+        "mt-3 grid gap-3 grid-cols-1",
+        "sm:grid-cols-2",
+        variants.length === 3 && "lg:grid-cols-3",
+        variants.length >= 4 && "lg:grid-cols-4",
+      )}
+    >
+      {variants.map((variant, idx) => {
+        const isSelected = idx === selected
+        const parts = getDisplayParts(variant)
+        const thoughtParts = getThoughtParts(variant.parts)
+
+        return (
+          <div
+            key={idx}
+            className={cn(
+              "rounded-xl border bg-background/60 p-3 space-y-3 min-w-0",
+              isSelected && "ring-2 ring-primary",
+              variant.error && "border-destructive/50",
+            )}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-medium truncate" title={variant.label}>{variant.label || `目标 ${idx + 1}`}</p>
+                {variant.latencyMs != null && (
+                  <p className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                    <Timer className="h-3 w-3" />
+                    {formatLatency(variant.latencyMs)}
+                  </p>
+                )}
+              </div>
+              {!variant.error && (
+                <Button
+                  size="sm"
+                  variant={isSelected ? "secondary" : "outline"}
+                  className="h-6 shrink-0 px-2 text-[10px]"
+                  onClick={() => onSelect(idx)}
+                  disabled={isSelected}
+                  title="选用该结果作为后续对话的上下文"
+                >
+                  {isSelected ? "已选用" : "选用"}
+                </Button>
+              )}
+            </div>
+
+            {!variant.error && thoughtParts.length > 0 && <ThinkingPanel parts={thoughtParts} onDownload={onDownload} />}
+
+            {variant.error ? (
+              <div className="flex items-start gap-2 text-xs text-destructive">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                <span className="break-words">{variant.error}</span>
+              </div>
+            ) : parts.length === 0 ? (
+              !variant.finishInfo && <p className="text-xs text-muted-foreground">（无内容）</p>
+            ) : (
+              parts.map((part, partIdx) =>
+                part.image ? (
+                  <GeneratedImage key={partIdx} data={part.image.data} mimeType={part.image.mimeType} onDownload={onDownload} />
+                ) : (
+                  <div key={partIdx} className="prose prose-sm prose-neutral dark:prose-invert max-w-none">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                      {addCitations(part.text || '', variant.groundingMetadata)}
+                    </ReactMarkdown>
+                  </div>
+                )
+              )
+            )}
+            {variant.finishInfo && <FinishNotice info={variant.finishInfo} />}
+            {variant.groundingMetadata && <GroundingSources metadata={variant.groundingMetadata} />}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// 错误分类与处理建议
+function ErrorGuidance({ info, onAction }: { info: ChatErrorInfo; onAction: (action: ChatErrorAction) => void }) {
+  return (
+    <div className="mt-3 space-y-2 border-t border-destructive/20 pt-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="rounded-full bg-destructive/15 px-2 py-0.5 font-medium">
+          {ERROR_KIND_LABELS[info.kind]}
+          {info.status ? ` · ${info.status}` : ""}
+        </span>
+        {info.hint && <span className="text-destructive/80">{info.hint}</span>}
+      </div>
+      {info.actions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {info.actions.map((action) => (
+            <Button
+              key={action}
+              variant="outline"
+              size="sm"
+              className="h-7 border-destructive/30 text-xs text-destructive hover:bg-destructive/10 hover:text-destructive"
+              onClick={() => onAction(action)}
+            >
+              {ERROR_ACTION_LABELS[action]}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 type MessageItemProps = {
   message: ChatMessage
-  onDownload: (base64: string) => void
+  onDownload: (base64: string, mimeType?: string) => void
   onDelete: (id: string) => void
   onRetry: (ctx: RetryContext, errorMessageId: string) => void
+  onSelectVariant: (messageId: string, index: number) => void
+  onErrorAction: (action: ChatErrorAction) => void
 }
 
-export function MessageItem({ message, onDownload, onDelete, onRetry }: MessageItemProps) {
+export function MessageItem({ message, onDownload, onDelete, onRetry, onSelectVariant, onErrorAction }: MessageItemProps) {
   const isUser = message.role === 'user'
   const [copied, setCopied] = useState(false)
-  const [lightboxOpen, setLightboxOpen] = useState(false)
   const canCopy = message.role !== 'system'
 
   const handleCopy = () => {
@@ -110,13 +448,41 @@ export function MessageItem({ message, onDownload, onDelete, onRetry }: MessageI
 
   const handleDelete = () => onDelete(message.id)
 
-  const displayParts = getDisplayParts(message)
+  const isComparison = Boolean(message.isComparison && message.variants?.length)
+  const hasVariants = !isComparison && (message.variants?.length ?? 0) > 1
+  // 批量生成时图片在变体网格中展示，这里只展示选中变体的文字；对比模式全部按列展示
+  const displayParts = isComparison
+    ? []
+    : hasVariants
+      ? getDisplayParts(message).filter((p) => !p.image)
+      : getDisplayParts(message)
+  const thoughtParts = isComparison ? [] : getThoughtParts(message.parts)
 
   return (
     <div className={cn("flex flex-col gap-1 w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-2 duration-300", isUser ? "items-end" : "items-start")}>
       {/* 用户名和时间戳 */}
       <div className={cn("flex items-center gap-2 px-1", isUser ? "flex-row-reverse" : "")}>
-        <span className="text-xs text-muted-foreground font-medium">{isUser ? "你" : "Gemini"}</span>
+        <span className="text-xs text-muted-foreground font-medium">{isUser ? "你" : message.source?.profileName || "Gemini"}</span>
+        {!isUser && message.source?.model && (
+          <span className="text-[10px] text-muted-foreground/60 font-mono truncate max-w-[160px]" title={message.source.model}>
+            {message.source.model}
+          </span>
+        )}
+        {!isUser && message.generationParams && (
+          <span className="text-[10px] text-muted-foreground/60 font-mono" title="生成时的采样参数（重新生成会沿用）">
+            {formatGenerationParams(message.generationParams)}
+          </span>
+        )}
+        {!isUser && message.usage?.length ? <UsageBadge usage={message.usage} /> : null}
+        {!isUser && message.source?.failoverFrom?.length ? (
+          <span
+            className="flex items-center gap-1 text-[10px] text-amber-600 dark:text-amber-400"
+            title={message.source.failoverFrom.map((f) => `${f.profileName}：${f.error}`).join("\n")}
+          >
+            <Shuffle className="h-3 w-3" />
+            已从「{message.source.failoverFrom[0].profileName}」自动切换
+          </span>
+        ) : null}
         <span className="text-[10px] text-muted-foreground/60 hidden sm:inline">{new Date(message.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
       </div>
 
@@ -124,10 +490,12 @@ export function MessageItem({ message, onDownload, onDelete, onRetry }: MessageI
       <div
         className={cn(
           "relative group/bubble rounded-2xl p-4 shadow-sm max-w-[90%] sm:max-w-[85%]",
+          isComparison && "w-full max-w-full sm:max-w-full",
           isUser
             ? "bg-primary text-white rounded-tr-sm"
             : "bg-card border rounded-tl-sm",
           message.isError ? "bg-destructive/10 border-destructive text-destructive" : "",
+          message.isCancelled ? "bg-muted/40 border-dashed text-muted-foreground" : "",
         )}
       >
         {/* 气泡操作：重试/重新生成 / 复制 / 删除 */}
@@ -148,8 +516,8 @@ export function MessageItem({ message, onDownload, onDelete, onRetry }: MessageI
                   ? "text-destructive hover:bg-destructive/10"
                   : "text-muted-foreground hover:text-primary hover:bg-primary/10",
               )}
-              aria-label={message.isError ? "重试" : "重新生成"}
-              title={message.isError ? "重试" : "重新生成"}
+              aria-label={message.isError || message.isCancelled ? "重试" : "重新生成"}
+              title={message.isError || message.isCancelled ? "重试" : "重新生成"}
             >
               <RefreshCw className="h-3.5 w-3.5" />
             </button>
@@ -184,27 +552,63 @@ export function MessageItem({ message, onDownload, onDelete, onRetry }: MessageI
           </button>
         </div>
 
-        {/* 文本内容 + 复制按钮 */}
+        {/* 思考过程（思考文字与草图） */}
+        {thoughtParts.length > 0 && (
+          <ThinkingPanel parts={thoughtParts} streaming={message.isStreaming && displayParts.length === 0} onDownload={onDownload} />
+        )}
+
+        {/* 文本与生成图片，按模型返回顺序展示 */}
         {displayParts.length > 0 && (
           <div className="relative group/text">
             <div className="space-y-3">
-              {displayParts.map((part, idx) => (
-                <div
-                  key={idx}
-                  className={cn(
-                    "prose prose-sm prose-neutral dark:prose-invert max-w-none",
-                    isUser && "prose-invert"
-                  )}
-                >
-                  <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
-                    {part.text}
-                  </ReactMarkdown>
-                </div>
-              ))}
+              {displayParts.map((part, idx) =>
+                part.image ? (
+                  <GeneratedImage key={idx} data={part.image.data} mimeType={part.image.mimeType} onDownload={onDownload} />
+                ) : (
+                  <div
+                    key={idx}
+                    className={cn(
+                      "prose prose-sm prose-neutral dark:prose-invert max-w-none",
+                      isUser && "prose-invert"
+                    )}
+                  >
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                      {isUser ? part.text : addCitations(part.text || '', message.groundingMetadata)}
+                    </ReactMarkdown>
+                  </div>
+                )
+              )}
             </div>
           </div>
         )}
 
+        {message.errorInfo && <ErrorGuidance info={message.errorInfo} onAction={onErrorAction} />}
+
+        {/* 对比模式下各列单独展示 */}
+        {message.finishInfo && !isComparison && <FinishNotice info={message.finishInfo} />}
+
+        {message.groundingMetadata && !isComparison && <GroundingSources metadata={message.groundingMetadata} />}
+
+        {/* 对比模式：各目标结果按列展示 */}
+        {isComparison && (
+          <ComparisonColumns
+            variants={message.variants!}
+            selected={message.selectedVariant}
+            onSelect={(index) => onSelectVariant(message.id, index)}
+            onDownload={onDownload}
+          />
+        )}
+
+        {/* 批量生成的变体 */}
+        {hasVariants && (
+          <VariantGrid
+            variants={message.variants!}
+            selected={message.selectedVariant ?? 0}
+            onSelect={(index) => onSelectVariant(message.id, index)}
+            onDownload={onDownload}
+          />
+        )}
+
         {/* 用户上传的参考图 */}
         {message.images && message.images.length > 0 && (
           <div className="flex flex-wrap gap-2 mt-2">
@@ -214,36 +618,12 @@ export function MessageItem({ message, onDownload, onDelete, onRetry }: MessageI
           </div>
         )}
 
-        {/* AI生成的图片 */}
-        {message.imageData && (
-          <>
-            <div className="mt-3 relative group" onClick={() => setLightboxOpen(true)}>
-              <img
-                src={`data:image/png;base64,${message.imageData}`}
-                alt="generated"
-                className="w-full h-auto max-w-md rounded-xl border shadow-sm bg-muted/10 min-h-[100px] cursor-pointer hover:brightness-95"
-              />
-              <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-all duration-200 flex gap-2">
-                <Button
-                  size="icon"
-                  variant="secondary"
-                  className="h-9 w-9 shadow-lg backdrop-blur-sm bg-background/80 hover:bg-background"
-                  onClick={(e: MouseEvent<HTMLButtonElement>) => {
-                    e.stopPropagation()
-                    onDownload(message.imageData!)
-                  }}
-                  title="下载图片"
-                >
-                  <Download className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-            <ImageLightbox
-              src={`data:image/png;base64,${message.imageData}`}
-              open={lightboxOpen}
-              onOpenChange={setLightboxOpen}
-            />
-          </>
+        {/* 流式接收中 */}
+        {message.isStreaming && (
+          <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            <span>{message.imageData ? '正在接收剩余内容…' : '正在生成，图片完成后将自动显示…'}</span>
+          </div>
         )}
       </div>
     </div>
@@ -2,13 +2,15 @@ import { useEffect, useRef } from 'react'
 import { Image as ImageIcon, Sparkles } from 'lucide-react'
 import { MessageItem } from './MessageItem'
 import { Button } from '@/components/ui/button'
-import type { ChatMessage, RetryContext } from '@/features/chat/types'
+import type { ChatErrorAction, ChatMessage, RetryContext } from '@/features/chat/types'
 
 type MessageListProps = {
   messages: ChatMessage[]
-  onDownload: (base64: string) => void
+  onDownload: (base64: string, mimeType?: string) => void
   onDeleteMessage: (id: string) => void
   onRetry: (ctx: RetryContext, errorMessageId: string) => void
+  onSelectVariant: (messageId: string, index: number) => void
+  onErrorAction: (action: ChatErrorAction) => void
   hasSavedConversation: boolean
   savedConversationAt: string | null
   onRestoreSavedConversation: () => void
@@ -20,6 +22,8 @@ export function MessageList({
   onDownload,
   onDeleteMessage,
   onRetry,
+  onSelectVariant,
+  onErrorAction,
   hasSavedConversation,
   savedConversationAt,
   onRestoreSavedConversation,
@@ -78,6 +82,8 @@ export function MessageList({
               onDownload={onDownload}
               onDelete={onDeleteMessage}
               onRetry={onRetry}
+              onSelectVariant={onSelectVariant}
+              onErrorAction={onErrorAction}
             />
           ))}
           <div ref={endRef} />
@@ -1,30 +1,43 @@
 import { useEffect, useRef, useState } from 'react'
-import { Search, Send, Plus, Settings2, Edit } from 'lucide-react'
+import { Search, Send, Plus, Settings2, Edit, Square } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { UploadStrip } from './UploadStrip'
 import { ControlBar } from './ControlBar'
 import type { UploadItem, ChatMode, AspectRatio, ImageSize } from '@/features/chat/types'
+import type { GeminiSamplingParams } from '@/types/gemini'
 import { extractFilesFromDataTransfer } from '../utils/files'
 import { cn } from '@/lib/utils'
-import { apiConfig, type ModelName } from '@/features/chat/utils/apiConfig'
+import { apiConfig, supportsImageEdit, supportsMask, supportsSearch, type ModelName } from '@/features/chat/utils/apiConfig'
 
 type PromptPanelProps = {
   prompt: string
   onPromptChange: (value: string) => void
   onSend: (mode?: ChatMode) => void
+  onCancel: () => void
   loading: boolean
   uploads: UploadItem[]
   onAddFiles: (files?: FileList | File[] | null) => Promise<void>
   onRemoveUpload: (id: string) => void
+  onToggleUploadMask: (id: string) => void
   aspectRatio: AspectRatio
   imageSize: ImageSize
   model: ModelName
   forceImageGuidance: boolean
+  variationCount: number
+  compareMode: boolean
+  compareTargetCount: number
   onAspectChange: (value: AspectRatio) => void
   onSizeChange: (value: ImageSize) => void
   onModelChange: (model: ModelName) => void
   onToggleForceImageGuidance: (value: boolean) => void
+  onVariationCountChange: (value: number) => void
+  onToggleCompareMode: (value: boolean) => void
+  onConfigureCompare: () => void
+  hasSystemInstruction: boolean
+  onOpenSystemInstruction: () => void
+  generationParams: GeminiSamplingParams
+  onGenerationParamsChange: (value: GeminiSamplingParams) => void
   canEditLast: boolean
   onEditLast: () => void
 }
@@ -33,18 +46,30 @@ export function PromptPanel({
   prompt,
   onPromptChange,
   onSend,
+  onCancel,
   loading,
   uploads,
   onAddFiles,
   onRemoveUpload,
+  onToggleUploadMask,
   aspectRatio,
   imageSize,
   model,
   forceImageGuidance,
+  variationCount,
+  compareMode,
+  compareTargetCount,
   onAspectChange,
   onSizeChange,
   onModelChange,
   onToggleForceImageGuidance,
+  onVariationCountChange,
+  onToggleCompareMode,
+  onConfigureCompare,
+  hasSystemInstruction,
+  onOpenSystemInstruction,
+  generationParams,
+  onGenerationParamsChange,
   canEditLast,
   onEditLast,
 }: PromptPanelProps) {
@@ -155,7 +180,12 @@ export function PromptPanel({
         {/* Upload Strip - Floating above */}
         {uploads.length > 0 && (
            <div className="px-1">
-              <UploadStrip uploads={uploads} onRemove={onRemoveUpload} aspectRatio={aspectRatio} />
+              <UploadStrip
+                uploads={uploads}
+                onRemove={onRemoveUpload}
+                onToggleMask={supportsMask(apiType) && !compareMode ? onToggleUploadMask : undefined}
+                aspectRatio={aspectRatio}
+              />
            </div>
         )}
 
@@ -183,7 +213,7 @@ export function PromptPanel({
            {/* Collapsible Controls inside the input box */}
           <div className={cn(
              "overflow-hidden transition-all duration-300 ease-in-out px-2",
-              showControls ? "max-h-40 opacity-100 mb-2" : "max-h-0 opacity-0"
+              showControls ? "max-h-72 opacity-100 mb-2" : "max-h-0 opacity-0"
            )}>
               <div className="bg-muted/40 rounded-xl p-1.5 mx-1 border border-border/20">
                  <ControlBar
@@ -191,10 +221,20 @@ export function PromptPanel({
                  imageSize={imageSize}
                  model={model}
                   forceImageGuidance={forceImageGuidance}
+                  variationCount={variationCount}
+                  compareMode={compareMode}
+                  compareTargetCount={compareTargetCount}
                   onAspectChange={onAspectChange}
                   onSizeChange={onSizeChange}
                   onModelChange={onModelChange}
                   onToggleForceImageGuidance={onToggleForceImageGuidance}
+                  onVariationCountChange={onVariationCountChange}
+                  onToggleCompareMode={onToggleCompareMode}
+                  onConfigureCompare={onConfigureCompare}
+                  hasSystemInstruction={hasSystemInstruction}
+                  onOpenSystemInstruction={onOpenSystemInstruction}
+                  generationParams={generationParams}
+                  onGenerationParamsChange={onGenerationParamsChange}
                   onEdit={onEditLast}
                   canEdit={canEditLast}
                   loading={loading}
@@ -233,7 +273,7 @@ export function PromptPanel({
             </div>
 
             <div className="flex items-center gap-1.5">
-              {apiType === "gemini" && (
+              {supportsImageEdit(apiType) && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -245,7 +285,7 @@ export function PromptPanel({
                   <Edit className="h-4 w-4" />
                 </Button>
               )}
-              {apiType === "gemini" && (
+              {supportsSearch(apiType) && (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -257,21 +297,26 @@ export function PromptPanel({
                   <Search className="h-4 w-4" />
                 </Button>
               )}
-              <Button
-                onClick={() => onSend("generate")}
-                disabled={loading || (!prompt && uploads.length === 0)}
-                size="icon"
-                className={cn(
-                  "h-8 w-8 rounded-full shadow-sm transition-all duration-200 shrink-0 flex items-center justify-center",
-                  loading ? "bg-muted text-muted-foreground" : "bg-primary hover:bg-primary/90 text-primary-foreground"
-                )}
-              >
-                {loading ? (
-                  <span className="animate-spin text-xs">⏳</span>
-                ) : (
+              {loading ? (
+                <Button
+                  onClick={onCancel}
+                  size="icon"
+                  variant="destructive"
+                  className="h-8 w-8 rounded-full shadow-sm transition-all duration-200 shrink-0 flex items-center justify-center"
+                  title="停止生成"
+                >
+                  <Square className="h-3.5 w-3.5 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => onSend("generate")}
+                  disabled={!prompt && uploads.length === 0}
+                  size="icon"
+                  className="h-8 w-8 rounded-full shadow-sm transition-all duration-200 shrink-0 flex items-center justify-center bg-primary hover:bg-primary/90 text-primary-foreground"
+                >
                   <Send className="h-4 w-4" />
-                )}
-              </Button>
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -18,9 +18,37 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
-import { Check, Pencil, Plus, Trash2, X } from 'lucide-react';
-import { apiConfig, type ApiType, type RequestMode } from '../utils/apiConfig';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowUp, Check, CheckCircle2, Copy, Loader2, Pencil, Plug, Plus, RefreshCw, Trash2, X, XCircle } from 'lucide-react';
+import {
+  apiConfig,
+  DEFAULT_OPENAI_IMAGE_OPTIONS,
+  DEFAULT_RETRY_COUNT,
+  isImageModelName,
+  MAX_RETRY_COUNT,
+  type ApiProfile,
+  type ApiType,
+  type OpenAIImageOptions,
+  type OpenAIImageOptionsMode,
+  type RequestMode,
+} from '../utils/apiConfig';
 import { allowedProxyBaseUrls, isAllowedProxyTargetUrl } from '@/config/proxyAllowlist';
+import type { GeminiHarmBlockThreshold, GeminiHarmCategory, GeminiSafetySetting } from '@/types/gemini';
+import {
+  HARM_BLOCK_THRESHOLD_LABELS,
+  HARM_BLOCK_THRESHOLDS,
+  HARM_CATEGORIES,
+  HARM_CATEGORY_LABELS,
+} from '../utils/safety';
+import {
+  DEFAULT_IMAGE_OPTIONS_TEMPLATES,
+  IMAGE_OPTIONS_MODE_LABELS,
+  parseExtraBodyTemplate,
+} from '../utils/openaiImageOptions';
+import { fetchAvailableModels } from '../services/modelCatalog';
+import { testConnection, type ConnectionTestResult } from '../services/connectionTest';
 
 type SettingsDialogProps = {
   open: boolean;
@@ -34,10 +62,25 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
   const [requestMode, setRequestMode] = useState<RequestMode>(apiConfig.getRequestMode());
   const [pendingRequestMode, setPendingRequestMode] = useState<RequestMode | null>(null);
   const [riskDialogOpen, setRiskDialogOpen] = useState(false);
+  const [streamResponse, setStreamResponse] = useState(false);
+  const [includeThoughts, setIncludeThoughts] = useState(false);
+  const [retryCount, setRetryCount] = useState(DEFAULT_RETRY_COUNT);
+  const [safetySettings, setSafetySettings] = useState<GeminiSafetySetting[]>([]);
   const [error, setError] = useState('');
 
+  // 配置档案
+  const [profiles, setProfiles] = useState<ApiProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  // 故障转移链（按尝试顺序排列的备用配置 ID）
+  const [failoverChain, setFailoverChain] = useState<string[]>([]);
+
   // Gemini 模型配置
   const [geminiModel, setGeminiModel] = useState('');
+  // OpenAI Images API 模型配置
+  const [openAIImagesModel, setOpenAIImagesModel] = useState('');
+  // OpenAI 兼容格式下画幅与分辨率的传递方式
+  const [imageOptions, setImageOptions] = useState<OpenAIImageOptions>(DEFAULT_OPENAI_IMAGE_OPTIONS);
 
   const [openAIModels, setOpenAIModels] = useState<string[]>([]);
   const [newOpenAIModel, setNewOpenAIModel] = useState('');
@@ -49,29 +92,66 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
 
   const [deleteConfirmModel, setDeleteConfirmModel] = useState<string | null>(null);
 
+  // 从服务商获取的可用模型
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [showAllModels, setShowAllModels] = useState(false);
+  const [fetchingModels, setFetchingModels] = useState(false);
+  const [fetchModelsError, setFetchModelsError] = useState('');
+
+  // 连接测试
+  const [testingConnection, setTestingConnection] = useState(false);
+  const [connectionResult, setConnectionResult] = useState<ConnectionTestResult | null>(null);
+
+  // 从当前配置（即激活的配置档案）加载表单
+  const loadFromConfig = () => {
+    const profileList = apiConfig.getProfiles();
+    const activeProfile = apiConfig.getActiveProfile();
+    setProfiles(profileList);
+    setActiveProfileId(activeProfile?.id || '');
+    setProfileName(activeProfile?.name || (profileList.length === 0 ? '默认配置' : ''));
+    setFailoverChain(apiConfig.getFailoverChain());
+
+    setUrl(apiConfig.getUrl() || 'https://www.packyapi.com');
+    setApiKey(apiConfig.getKey());
+    setApiType(apiConfig.getType());
+    setRequestMode(apiConfig.getRequestMode());
+    setPendingRequestMode(null);
+    setRiskDialogOpen(false);
+    setStreamResponse(apiConfig.getStreamResponse());
+    setIncludeThoughts(apiConfig.getIncludeThoughts());
+    setRetryCount(apiConfig.getRetryCount());
+    setSafetySettings(apiConfig.getSafetySettings());
+    setError('');
+
+    // Gemini 模型
+    setGeminiModel(apiConfig.getGeminiModel());
+    setOpenAIImagesModel(apiConfig.getOpenAIImagesModel());
+    setImageOptions(apiConfig.getOpenAIImageOptions());
+
+    setOpenAIModels(apiConfig.getOpenAIModelList());
+    setNewOpenAIModel('');
+    setOpenAIAddError('');
+    setEditingOpenAIModel(null);
+    setEditingOpenAIModelValue('');
+    setOpenAIEditError('');
+    setDeleteConfirmModel(null);
+
+    setAvailableModels(apiConfig.getFetchedModels()?.models || []);
+    setShowAllModels(apiConfig.getShowAllModels());
+    setFetchModelsError('');
+  };
+
   useEffect(() => {
     if (open) {
-      setUrl(apiConfig.getUrl() || 'https://www.packyapi.com');
-      setApiKey(apiConfig.getKey());
-      setApiType(apiConfig.getType());
-      setRequestMode(apiConfig.getRequestMode());
-      setPendingRequestMode(null);
-      setRiskDialogOpen(false);
-      setError('');
-
-      // Gemini 模型
-      setGeminiModel(apiConfig.getGeminiModel());
-
-      setOpenAIModels(apiConfig.getOpenAIModelList());
-      setNewOpenAIModel('');
-      setOpenAIAddError('');
-      setEditingOpenAIModel(null);
-      setEditingOpenAIModelValue('');
-      setOpenAIEditError('');
-      setDeleteConfirmModel(null);
+      loadFromConfig();
     }
   }, [open]);
 
+  // 连接信息变化后旧的测试结果不再适用
+  useEffect(() => {
+    setConnectionResult(null);
+  }, [apiType, url, apiKey, requestMode]);
+
   useEffect(() => {
     if (apiType !== 'openai') {
       setNewOpenAIModel('');
@@ -92,29 +172,65 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
       setError('请输入 API Key');
       return;
     }
+    if (
+      apiType === 'openai' &&
+      imageOptions.mode === 'extra-body' &&
+      imageOptions.template.trim() &&
+      !parseExtraBodyTemplate(imageOptions.template)
+    ) {
+      setError('画幅与分辨率的额外请求体字段需为 JSON 对象');
+      return;
+    }
     apiConfig.setUrl(url.trim());
     apiConfig.setKey(apiKey.trim());
     apiConfig.setType(apiType);
     apiConfig.setRequestMode(requestMode);
+    apiConfig.setStreamResponse(streamResponse);
+    apiConfig.setIncludeThoughts(includeThoughts);
+    apiConfig.setRetryCount(retryCount);
+    apiConfig.setSafetySettings(safetySettings);
+    apiConfig.setShowAllModels(showAllModels);
     // 保存 Gemini 模型
     if (geminiModel.trim()) {
       apiConfig.setGeminiModel(geminiModel.trim());
     }
+    if (openAIImagesModel.trim()) {
+      apiConfig.setOpenAIImagesModel(openAIImagesModel.trim());
+    }
+    if (apiType === 'openai') {
+      apiConfig.setOpenAIImageOptions(imageOptions);
+    }
+    const profile = apiConfig.syncActiveProfile(profileName);
+    // 首次保存时才创建配置档案，把按 URL 缓存的模型列表转到该档案下
+    if (!activeProfileId && availableModels.length > 0) {
+      apiConfig.setFetchedModels(availableModels, profile.id);
+    }
+    apiConfig.setFailoverChain(failoverChain);
     onOpenChange(false);
   };
 
   const handleReset = () => {
     apiConfig.clear();
+    setProfiles([]);
+    setActiveProfileId('');
+    setProfileName('默认配置');
+    setFailoverChain([]);
     setUrl('https://www.packyapi.com');
     setApiKey('');
     setApiType('gemini');
     setRequestMode(apiConfig.getRequestMode());
     setPendingRequestMode(null);
     setRiskDialogOpen(false);
+    setStreamResponse(apiConfig.getStreamResponse());
+    setIncludeThoughts(false);
+    setRetryCount(apiConfig.getRetryCount());
+    setSafetySettings([]);
     setError('');
 
     // 重置 Gemini 模型为默认值
     setGeminiModel(apiConfig.getGeminiModel());
+    setOpenAIImagesModel(apiConfig.getOpenAIImagesModel());
+    setImageOptions(apiConfig.getOpenAIImageOptions());
 
     setOpenAIModels([]);
     setNewOpenAIModel('');
@@ -123,11 +239,107 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     setEditingOpenAIModelValue('');
     setOpenAIEditError('');
     setDeleteConfirmModel(null);
+
+    setAvailableModels([]);
+    setShowAllModels(false);
+    setFetchModelsError('');
+  };
+
+  const handleProfileChange = (id: string) => {
+    if (id === activeProfileId) return;
+    apiConfig.activateProfile(id);
+    loadFromConfig();
+  };
+
+  const handleCreateProfile = () => {
+    apiConfig.createProfile(`配置 ${profiles.length + 1}`);
+    loadFromConfig();
+  };
+
+  const handleDuplicateProfile = () => {
+    if (!activeProfileId) return;
+    apiConfig.duplicateProfile(activeProfileId);
+    loadFromConfig();
+  };
+
+  const handleDeleteProfile = () => {
+    if (!activeProfileId) return;
+    const target = profiles.find((profile) => profile.id === activeProfileId);
+    if (!window.confirm(`删除配置「${target?.name || ''}」？`)) return;
+    apiConfig.deleteProfile(activeProfileId);
+    loadFromConfig();
+  };
+
+  // 备用配置：已启用的按尝试顺序在前，其余在后
+  const { failoverCandidates, enabledFailoverIds } = useMemo(() => {
+    const others = profiles.filter((profile) => profile.id !== activeProfileId);
+    const enabled = failoverChain
+      .map((id) => others.find((profile) => profile.id === id))
+      .filter((profile): profile is ApiProfile => !!profile);
+    return {
+      failoverCandidates: [...enabled, ...others.filter((profile) => !failoverChain.includes(profile.id))],
+      enabledFailoverIds: enabled.map((profile) => profile.id),
+    };
+  }, [profiles, activeProfileId, failoverChain]);
+
+  const toggleFailover = (id: string, enabled: boolean) => {
+    setFailoverChain((prev) => (enabled ? [...prev.filter((item) => item !== id), id] : prev.filter((item) => item !== id)));
+  };
+
+  const moveFailoverUp = (id: string) => {
+    const index = enabledFailoverIds.indexOf(id);
+    if (index <= 0) return;
+    const next = [...enabledFailoverIds];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    setFailoverChain(next);
+  };
+
+  const handleTestConnection = async () => {
+    setTestingConnection(true);
+    setConnectionResult(null);
+    try {
+      setConnectionResult(await testConnection({ apiType, url, key: apiKey.trim(), model: '', requestMode }));
+    } finally {
+      setTestingConnection(false);
+    }
+  };
+
+  // 使用表单中尚未保存的连接信息获取，结果缓存到正在编辑的配置档案
+  const handleFetchModels = async () => {
+    setFetchingModels(true);
+    setFetchModelsError('');
+    try {
+      const target = { apiType, url: url.trim(), key: apiKey.trim(), model: '', requestMode };
+      const models = await fetchAvailableModels(target);
+      apiConfig.setFetchedModels(models, apiConfig.getModelCacheKey(target, activeProfileId || undefined));
+      setAvailableModels(models);
+    } catch (err) {
+      setFetchModelsError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setFetchingModels(false);
+    }
+  };
+
+  // 聊天栏下拉框中实际出现的获取模型
+  const visibleModels = showAllModels ? availableModels : availableModels.filter(isImageModelName);
+
+  const getSafetyThreshold = (category: GeminiHarmCategory) =>
+    safetySettings.find((setting) => setting.category === category)?.threshold ?? 'default';
+
+  const updateSafetyThreshold = (category: GeminiHarmCategory, value: string) => {
+    setSafetySettings((prev) => {
+      const others = prev.filter((setting) => setting.category !== category);
+      return value === 'default' ? others : [...others, { category, threshold: value as GeminiHarmBlockThreshold }];
+    });
   };
 
   const getApiPathHint = () => {
     if (apiType === 'gemini') {
-      return `${url || '{url}'}/v1beta/models/${geminiModel || '{model}'}:generateContent`;
+      const method = streamResponse ? 'streamGenerateContent?alt=sse' : 'generateContent';
+      return `${url || '{url}'}/v1beta/models/${geminiModel || '{model}'}:${method}`;
+    }
+    if (apiType === 'openai-images') {
+      return `${url || '{url}'}/v1/images/generations（编辑与合成：/v1/images/edits）`;
     }
     return `${url || '{url}'}/v1/chat/completions`;
   };
@@ -237,7 +449,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[560px]">
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>设置</DialogTitle>
           <DialogDescription>
@@ -246,6 +458,104 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
         </DialogHeader>
         
         <div className="py-4">
+          {/* 配置档案 */}
+          <div className="space-y-3 pb-6">
+            <h3 className="text-sm font-medium text-muted-foreground">配置档案</h3>
+            <div className="flex gap-2">
+              {profiles.length > 0 && (
+                <Select value={activeProfileId || undefined} onValueChange={handleProfileChange}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="选择配置" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button type="button" variant="outline" size="icon" className="shrink-0" onClick={handleCreateProfile} title="新建配置">
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="shrink-0"
+                onClick={handleDuplicateProfile}
+                disabled={!activeProfileId}
+                title="复制当前配置"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="shrink-0 text-destructive hover:text-destructive"
+                onClick={handleDeleteProfile}
+                disabled={!activeProfileId}
+                title="删除当前配置"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">配置名称</Label>
+              <Input
+                id="profile-name"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="例如：PackyAPI 主力"
+              />
+              <p className="text-xs text-muted-foreground">
+                每个配置独立保存 URL、Key、API 类型、请求方式与默认模型；切换配置会放弃未保存的修改。
+              </p>
+            </div>
+            {failoverCandidates.length > 0 && (
+              <div className="space-y-2">
+                <Label>故障转移</Label>
+                <p className="text-xs text-muted-foreground">
+                  当前配置返回 5xx、网络错误或超时时，按以下顺序自动改用备用配置重试（OpenAI 兼容配置不参与编辑与联网搜索）。
+                </p>
+                <div className="space-y-1">
+                  {failoverCandidates.map((profile) => {
+                    const order = enabledFailoverIds.indexOf(profile.id);
+                    const enabled = order !== -1;
+                    return (
+                      <div key={profile.id} className="flex items-center gap-2 rounded-md border px-3 py-1.5">
+                        <Checkbox
+                          id={`failover-${profile.id}`}
+                          checked={enabled}
+                          onCheckedChange={(checked) => toggleFailover(profile.id, checked === true)}
+                        />
+                        <Label htmlFor={`failover-${profile.id}`} className="flex-1 truncate font-normal cursor-pointer">
+                          {enabled && <span className="mr-1.5 text-muted-foreground">{order + 1}.</span>}
+                          {profile.name}
+                          <span className="ml-2 text-xs text-muted-foreground font-mono">{profile.model}</span>
+                        </Label>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 shrink-0"
+                          onClick={() => moveFailoverUp(profile.id)}
+                          disabled={order <= 0}
+                          title="提前"
+                        >
+                          <ArrowUp className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            <Separator />
+          </div>
+
           {/* API 配置 */}
           <div className="space-y-4">
             <h3 className="text-sm font-medium text-muted-foreground">API 配置</h3>
@@ -259,12 +569,15 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                   <SelectContent>
                     <SelectItem value="gemini">Gemini (原生格式)</SelectItem>
                     <SelectItem value="openai">OpenAI 兼容格式</SelectItem>
+                    <SelectItem value="openai-images">OpenAI Images API</SelectItem>
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-muted-foreground">
                   {apiType === 'gemini'
                     ? '使用 Gemini 原生 API 格式，支持图片生成和编辑'
-                    : '使用 OpenAI 兼容 API 格式，适用于普通 Chat 对话'}
+                    : apiType === 'openai-images'
+                      ? '使用 OpenAI 图片接口（gpt-image-1、dall-e-3 等），画幅与分辨率映射为 size 参数，支持编辑与蒙版'
+                      : '使用 OpenAI 兼容 API 格式，适用于普通 Chat 对话'}
                 </p>
               </div>
 
@@ -277,9 +590,67 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                     value={geminiModel}
                     onChange={(e) => setGeminiModel(e.target.value)}
                     placeholder="gemini-3-pro-image-preview"
+                    list="settings-available-models"
                   />
                   <p className="text-xs text-muted-foreground">
-                    输入 Gemini 模型名称，如 gemini-3-pro-image-preview
+                    输入 Gemini 模型名称，如 gemini-3-pro-image-preview；也可在下方「可用模型」中从服务商获取后选择
+                  </p>
+                </div>
+              )}
+
+              {/* OpenAI Images API 模型 ID 输入 */}
+              {apiType === 'openai-images' && (
+                <div className="space-y-2">
+                  <Label htmlFor="openai-images-model">模型 ID</Label>
+                  <Input
+                    id="openai-images-model"
+                    value={openAIImagesModel}
+                    onChange={(e) => setOpenAIImagesModel(e.target.value)}
+                    placeholder="gpt-image-1"
+                    list="settings-available-models"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    gpt-image 与 dall-e 系列只接受固定尺寸，会按画幅方向取最接近的一档；其他模型按分辨率计算像素尺寸
+                  </p>
+                </div>
+              )}
+
+              {/* OpenAI 兼容格式：画幅与分辨率的传递方式 */}
+              {apiType === 'openai' && (
+                <div className="space-y-2">
+                  <Label htmlFor="image-options-mode">画幅与分辨率</Label>
+                  <Select
+                    value={imageOptions.mode}
+                    onValueChange={(value: OpenAIImageOptionsMode) => setImageOptions({ mode: value, template: '' })}
+                  >
+                    <SelectTrigger id="image-options-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(IMAGE_OPTIONS_MODE_LABELS) as OpenAIImageOptionsMode[]).map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {IMAGE_OPTIONS_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {imageOptions.mode !== 'none' && (
+                    <Textarea
+                      value={imageOptions.template}
+                      onChange={(e) => setImageOptions((prev) => ({ ...prev, template: e.target.value }))}
+                      placeholder={DEFAULT_IMAGE_OPTIONS_TEMPLATES[imageOptions.mode]}
+                      rows={imageOptions.mode === 'extra-body' ? 3 : 1}
+                      className="font-mono text-xs"
+                    />
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {imageOptions.mode === 'none'
+                      ? '中转站不支持时保持默认：聊天栏隐藏画幅与分辨率，请求固定为 1:1 / 1K'
+                      : imageOptions.mode === 'extra-body'
+                        ? '合并进请求体的 JSON 对象（留空使用占位示例）；字符串中的 {aspectRatio}、{imageSize}、{size} 会被替换'
+                        : imageOptions.mode === 'model-suffix'
+                          ? '追加在模型名之后（留空使用占位示例），如 -{imageSize} 得到 -2k；画幅写作 16x9，后缀统一转为小写'
+                          : '追加在提示词末尾（留空使用占位示例）；{size} 按分辨率换算为像素尺寸，如 2048x1152'}
                   </p>
                 </div>
               )}
@@ -345,6 +716,159 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                 </Select>
                 <p className="text-xs text-muted-foreground">{requestModeDescription}</p>
               </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="space-y-1">
+                    <Label>连接测试</Label>
+                    <p className="text-xs text-muted-foreground">
+                      按当前填写的类型与请求方式请求一次模型列表，不消耗生成额度，无需先保存。
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-7 shrink-0 gap-1.5 text-xs"
+                    onClick={handleTestConnection}
+                    disabled={testingConnection}
+                  >
+                    {testingConnection ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plug className="h-3.5 w-3.5" />}
+                    测试连接
+                  </Button>
+                </div>
+                {connectionResult && (
+                  <div
+                    className={`rounded-md border px-3 py-2 text-xs space-y-1 ${
+                      connectionResult.ok ? 'border-emerald-500/40 bg-emerald-500/5' : 'border-destructive/40 bg-destructive/5'
+                    }`}
+                  >
+                    <div className={`flex items-center gap-1.5 font-medium ${connectionResult.ok ? 'text-emerald-600 dark:text-emerald-400' : 'text-destructive'}`}>
+                      {connectionResult.ok ? <CheckCircle2 className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+                      <span className="break-all">{connectionResult.message}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+                      {connectionResult.status != null && <span>HTTP {connectionResult.status}</span>}
+                      {connectionResult.latencyMs != null && <span>延迟 {connectionResult.latencyMs}ms</span>}
+                      {connectionResult.corsBlocked != null && (
+                        <span>跨域：{connectionResult.corsBlocked ? '疑似被拦截' : '正常'}</span>
+                      )}
+                      {connectionResult.proxyAllowed != null && (
+                        <span>转发白名单：{connectionResult.proxyAllowed ? '已允许' : '不在白名单'}</span>
+                      )}
+                    </div>
+                    {connectionResult.hint && <p className="text-muted-foreground">{connectionResult.hint}</p>}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label>可用模型</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1.5 text-xs"
+                    onClick={handleFetchModels}
+                    disabled={fetchingModels || !url.trim() || !apiKey.trim()}
+                  >
+                    {fetchingModels ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+                    从服务商获取
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {availableModels.length > 0
+                    ? `已获取 ${availableModels.length} 个模型，其中 ${visibleModels.length} 个会与手动添加的模型一起出现在聊天栏的模型下拉框中。`
+                    : `请求 ${apiType === 'gemini' ? '/v1beta/models（只保留支持 generateContent 的模型）' : '/v1/models'}，结果按配置档案缓存。`}
+                </p>
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="show-all-models" className="text-xs font-normal text-muted-foreground">
+                    显示全部模型（默认只显示名称含 image、dall-e、flux、sd 等的图片模型）
+                  </Label>
+                  <Switch id="show-all-models" checked={showAllModels} onCheckedChange={setShowAllModels} />
+                </div>
+                {fetchModelsError && <p className="text-xs text-destructive">{fetchModelsError}</p>}
+                <datalist id="settings-available-models">
+                  {visibleModels.map((item) => (
+                    <option key={item} value={item} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="stream-response">流式响应</Label>
+                  <p className="text-xs text-muted-foreground">
+                    开启后以 SSE 方式边生成边展示文本，图片生成完成后自动替换；需服务商支持流式接口。
+                  </p>
+                </div>
+                <Switch id="stream-response" checked={streamResponse} onCheckedChange={setStreamResponse} />
+              </div>
+
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="include-thoughts">返回思考过程</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Gemini 格式下请求 thinkingConfig.includeThoughts，在回复上方的「思考过程」中展示思考文字与草图；不支持思考的模型可能拒绝该参数。OpenAI 兼容格式返回的 reasoning_content 会自动展示。
+                  </p>
+                </div>
+                <Switch id="include-thoughts" checked={includeThoughts} onCheckedChange={setIncludeThoughts} />
+              </div>
+
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="retry-count">自动重试</Label>
+                  <p className="text-xs text-muted-foreground">
+                    遇到限流（429）或服务端临时错误（500/502/503/504）时按指数退避自动重试，优先遵循服务商返回的 Retry-After；其他 4xx 错误不会重试。
+                  </p>
+                </div>
+                <Select value={String(retryCount)} onValueChange={(value) => setRetryCount(Number(value))}>
+                  <SelectTrigger id="retry-count" className="w-[110px] shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_RETRY_COUNT + 1 }, (_, count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count === 0 ? '不重试' : `最多 ${count} 次`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* 安全设置 */}
+          <div className="pt-6 space-y-4">
+            <Separator />
+            <div className="space-y-1">
+              <h3 className="text-sm font-medium text-muted-foreground">安全设置</h3>
+              <p className="text-xs text-muted-foreground">
+                按危害类别设置 Gemini 的拦截阈值（仅对 Gemini 原生格式生效）；「默认」表示使用服务端默认阈值。重试会沿用发送时的设置。
+              </p>
+            </div>
+            <div className="grid gap-2">
+              {HARM_CATEGORIES.map((category) => (
+                <div key={category} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`safety-${category}`} className="font-normal">
+                    {HARM_CATEGORY_LABELS[category]}
+                  </Label>
+                  <Select value={getSafetyThreshold(category)} onValueChange={(value) => updateSafetyThreshold(category, value)}>
+                    <SelectTrigger id={`safety-${category}`} className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">默认</SelectItem>
+                      {HARM_BLOCK_THRESHOLDS.map((threshold) => (
+                        <SelectItem key={threshold} value={threshold}>
+                          {HARM_BLOCK_THRESHOLD_LABELS[threshold]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
             </div>
           </div>
 
@@ -369,6 +893,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                       if (openAIAddError) setOpenAIAddError('');
                     }}
                     placeholder="例如：gpt-4o-mini"
+                    list="settings-available-models"
                     className="h-9"
                     onKeyDown={(e) => {
                       if (e.key === 'Enter') submitNewModel();
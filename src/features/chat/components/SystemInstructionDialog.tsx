@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Save, Trash2 } from 'lucide-react';
+import { systemPresets, type SystemPreset } from '../utils/systemPresets';
+
+type SystemInstructionDialogProps = {
+  open: boolean;
+  value: string;
+  onOpenChange: (open: boolean) => void;
+  onSave: (value: string) => void;
+};
+
+export function SystemInstructionDialog({ open, value, onOpenChange, onSave }: SystemInstructionDialogProps) {
+  const [draft, setDraft] = useState('');
+  const [presets, setPresets] = useState<SystemPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setDraft(value);
+      setPresets(systemPresets.list());
+      setSelectedPresetId('');
+      setPresetName('');
+    }
+  }, [open, value]);
+
+  const selectedPreset = presets.find((preset) => preset.id === selectedPresetId);
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find((item) => item.id === id);
+    if (!preset) return;
+    setSelectedPresetId(id);
+    setDraft(preset.instruction);
+    setPresetName(preset.builtIn ? '' : preset.name);
+  };
+
+  const savePreset = () => {
+    if (!presetName.trim() || !draft.trim()) return;
+    const preset = systemPresets.save(presetName, draft);
+    setPresets(systemPresets.list());
+    setSelectedPresetId(preset.id);
+  };
+
+  const removePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    if (!window.confirm(`删除预设「${selectedPreset.name}」？`)) return;
+    systemPresets.remove(selectedPreset.id);
+    setPresets(systemPresets.list());
+    setSelectedPresetId('');
+  };
+
+  const handleSave = () => {
+    onSave(draft.trim());
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>系统指令</DialogTitle>
+          <DialogDescription>
+            为当前会话设定人设或长期要求，会以系统指令的形式随每次请求发送（Gemini 为 systemInstruction，OpenAI 兼容格式为 system 消息），并随会话一起保存。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex gap-2">
+            <Select value={selectedPresetId || undefined} onValueChange={applyPreset}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="从预设中选择…" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                    {preset.builtIn ? '' : '（自定义）'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              className="shrink-0 text-destructive hover:text-destructive"
+              onClick={removePreset}
+              disabled={!selectedPreset || selectedPreset.builtIn}
+              title="删除自定义预设"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="system-instruction">指令内容</Label>
+            <Textarea
+              id="system-instruction"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="例如：你是一名资深商业产品摄影师……（留空表示不使用系统指令）"
+              className="min-h-[160px]"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="预设名称"
+              className="flex-1"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="shrink-0 gap-2"
+              onClick={savePreset}
+              disabled={!presetName.trim() || !draft.trim()}
+            >
+              <Save className="h-4 w-4" />
+              保存为预设
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleSave}>应用到当前会话</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
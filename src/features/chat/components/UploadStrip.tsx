@@ -1,14 +1,17 @@
-import { X } from 'lucide-react'
+import { Eraser, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
 import type { UploadItem } from '@/features/chat/types'
 import { getThumbSize } from '../utils/thumb'
 
 type UploadStripProps = {
   uploads: UploadItem[]
   onRemove: (id: string) => void
+  // 提供时显示「设为蒙版」按钮（仅 OpenAI Images API 支持蒙版）
+  onToggleMask?: (id: string) => void
   aspectRatio?: string | number
 }
 
-export function UploadStrip({ uploads, onRemove, aspectRatio }: UploadStripProps) {
+export function UploadStrip({ uploads, onRemove, onToggleMask, aspectRatio }: UploadStripProps) {
   // 条件渲染:无上传时不显示
   if (uploads.length === 0) return null
 
@@ -19,7 +22,10 @@ export function UploadStrip({ uploads, onRemove, aspectRatio }: UploadStripProps
       {uploads.map((img) => (
         <div
           key={img.id}
-          className="relative shrink-0 group rounded-lg border shadow-sm bg-muted/20 overflow-hidden flex items-center justify-center"
+          className={cn(
+            "relative shrink-0 group rounded-lg border shadow-sm bg-muted/20 overflow-hidden flex items-center justify-center",
+            onToggleMask && img.isMask && "ring-2 ring-primary"
+          )}
           style={getThumbSize(img.aspectRatio ?? aspectRatio ?? 1, MAX_EDGE)}
         >
           <img
@@ -34,6 +40,19 @@ export function UploadStrip({ uploads, onRemove, aspectRatio }: UploadStripProps
           >
             <X className="h-3 w-3" />
           </button>
+          {onToggleMask && (
+            <button
+              onClick={() => onToggleMask(img.id)}
+              className={cn(
+                "absolute bottom-0.5 left-0.5 z-10 flex items-center gap-0.5 rounded px-1 py-0.5 text-[10px] text-white backdrop-blur-sm transition-all",
+                img.isMask ? "bg-primary" : "bg-black/50 opacity-0 group-hover:opacity-100"
+              )}
+              title={img.isMask ? "取消蒙版" : "设为蒙版：透明区域为需要重绘的部分，不作为参考图发送"}
+            >
+              <Eraser className="h-3 w-3" />
+              {img.isMask && "蒙版"}
+            </button>
+          )}
         </div>
       ))}
     </div>
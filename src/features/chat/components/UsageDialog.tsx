@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import type { ChatMessage, TokenUsage } from '../types';
+import {
+  DEFAULT_MODEL_PRICES,
+  estimateCost,
+  findModelPrice,
+  formatCost,
+  priceTable,
+  type ModelPrice,
+} from '../utils/pricing';
+import { sumUsage, usageStats, type DailyModelUsage, type UsageTotals } from '../utils/usageStats';
+
+type UsageDialogProps = {
+  open: boolean;
+  messages: ChatMessage[];
+  onOpenChange: (open: boolean) => void;
+};
+
+// 价格编辑中允许暂时为空，保存时再校验
+type PriceDraft = { model: string; input: string; output: string; imageOutput: string };
+
+const STATS_DAYS = 30;
+
+const toDraft = (price: ModelPrice): PriceDraft => ({
+  model: price.model,
+  input: String(price.input),
+  output: String(price.output),
+  imageOutput: price.imageOutput === undefined ? '' : String(price.imageOutput),
+});
+
+const parsePrice = (value: string): number => (value.trim() === '' ? Number.NaN : Number(value));
+
+const fromDrafts = (drafts: PriceDraft[]): ModelPrice[] =>
+  drafts.map((draft) => ({
+    model: draft.model.trim(),
+    input: parsePrice(draft.input),
+    output: parsePrice(draft.output),
+    imageOutput: draft.imageOutput.trim() === '' ? undefined : parsePrice(draft.imageOutput),
+  }));
+
+/**
+ * 按模型分别计价后求和；任一模型没有价格时返回 null
+ */
+const sumCost = (rows: Array<{ model: string; usage: UsageTotals | TokenUsage }>, prices: ModelPrice[]): number | null => {
+  let total = 0;
+  for (const { model, usage } of rows) {
+    const cost = estimateCost(usage, findModelPrice(model, prices));
+    if (cost === null) return null;
+    total += cost;
+  }
+  return total;
+};
+
+const formatTokens = (value: number) => value.toLocaleString();
+
+export function UsageDialog({ open, messages, onOpenChange }: UsageDialogProps) {
+  const [daily, setDaily] = useState<DailyModelUsage[]>([]);
+  const [drafts, setDrafts] = useState<PriceDraft[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setDaily(usageStats.list());
+      setDrafts(priceTable.list().map(toDraft));
+      setError('');
+    }
+  }, [open]);
+
+  // 费用按编辑中的价格实时计算，便于保存前预览
+  const prices = useMemo(
+    () => fromDrafts(drafts).filter((price) => price.model && Number.isFinite(price.input) && Number.isFinite(price.output)),
+    [drafts]
+  );
+
+  const conversationUsage = useMemo(() => messages.flatMap((message) => message.usage || []), [messages]);
+  const conversationTotals = sumUsage(conversationUsage);
+  const conversationCost = sumCost(
+    conversationUsage.map((usage) => ({ model: usage.model, usage })),
+    prices
+  );
+
+  const recentDays = useMemo(() => {
+    const dates = Array.from(new Set(daily.map((row) => row.date))).slice(0, STATS_DAYS);
+    return dates.map((date) => {
+      const rows = daily.filter((row) => row.date === date);
+      return { date, rows, totals: sumUsage(rows), requests: rows.reduce((sum, row) => sum + row.requests, 0) };
+    });
+  }, [daily]);
+
+  const updateDraft = (index: number, patch: Partial<PriceDraft>) => {
+    setDrafts((prev) => prev.map((draft, idx) => (idx === index ? { ...draft, ...patch } : draft)));
+    setError('');
+  };
+
+  const handleSave = () => {
+    const parsed = fromDrafts(drafts);
+    const invalid = parsed.findIndex(
+      (price) =>
+        !price.model ||
+        !Number.isFinite(price.input) ||
+        !Number.isFinite(price.output) ||
+        price.input < 0 ||
+        price.output < 0 ||
+        (price.imageOutput !== undefined && (!Number.isFinite(price.imageOutput) || price.imageOutput < 0))
+    );
+    if (invalid !== -1) {
+      setError(`第 ${invalid + 1} 行价格不完整或不是有效数字`);
+      return;
+    }
+    priceTable.save(parsed);
+    onOpenChange(false);
+  };
+
+  const handleResetPrices = () => {
+    setDrafts(DEFAULT_MODEL_PRICES.map(toDraft));
+    setError('');
+  };
+
+  const handleClearStats = () => {
+    if (!window.confirm('清空所有按天统计的用量？各消息上记录的用量不受影响。')) return;
+    usageStats.clear();
+    setDaily([]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>用量统计</DialogTitle>
+          <DialogDescription>
+            token 数来自接口返回的用量信息，费用按下方价格表估算（美元 / 百万 token），仅供参考。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2 text-sm">
+          <section className="space-y-2">
+            <h3 className="font-medium">当前会话</h3>
+            {conversationUsage.length === 0 ? (
+              <p className="text-muted-foreground">当前会话暂无用量记录</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                {[
+                  { label: '请求次数', value: formatTokens(conversationTotals.requests) },
+                  { label: '输入 token', value: formatTokens(conversationTotals.promptTokens) },
+                  {
+                    label: '输出 token（图片）',
+                    value: `${formatTokens(conversationTotals.outputTokens)}（${formatTokens(conversationTotals.imageTokens)}）`,
+                  },
+                  { label: '思考 token', value: formatTokens(conversationTotals.thoughtTokens) },
+                  { label: '合计 token', value: formatTokens(conversationTotals.totalTokens) },
+                  { label: '估算费用', value: conversationCost === null ? '部分模型无价格' : formatCost(conversationCost) },
+                ].map((item) => (
+                  <div key={item.label} className="rounded-md border px-3 py-2">
+                    <div className="text-xs text-muted-foreground">{item.label}</div>
+                    <div className="font-mono">{item.value}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">最近 {STATS_DAYS} 天</h3>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs hover:text-destructive"
+                onClick={handleClearStats}
+                disabled={daily.length === 0}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                清空统计
+              </Button>
+            </div>
+            {recentDays.length === 0 ? (
+              <p className="text-muted-foreground">暂无统计数据</p>
+            ) : (
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left font-medium">日期</th>
+                      <th className="px-2 py-1.5 text-left font-medium">模型</th>
+                      <th className="px-2 py-1.5 text-right font-medium">请求</th>
+                      <th className="px-2 py-1.5 text-right font-medium">输入</th>
+                      <th className="px-2 py-1.5 text-right font-medium">输出</th>
+                      <th className="px-2 py-1.5 text-right font-medium">思考</th>
+                      <th className="px-2 py-1.5 text-right font-medium">费用</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentDays.map(({ date, rows, totals, requests }) => {
+                      const dayCost = sumCost(rows.map((row) => ({ model: row.model, usage: row })), prices);
+                      return (
+                        <tr key={date} className="border-t align-top">
+                          <td className="px-2 py-1.5 font-mono whitespace-nowrap">{date}</td>
+                          <td className="px-2 py-1.5">
+                            {rows.map((row) => (
+                              <div key={row.model} className="truncate max-w-[180px] font-mono" title={row.model}>
+                                {row.model}
+                              </div>
+                            ))}
+                          </td>
+                          <td className="px-2 py-1.5 text-right font-mono">{requests}</td>
+                          <td className="px-2 py-1.5 text-right font-mono">{formatTokens(totals.promptTokens)}</td>
+                          <td className="px-2 py-1.5 text-right font-mono">{formatTokens(totals.outputTokens)}</td>
+                          <td className="px-2 py-1.5 text-right font-mono">{formatTokens(totals.thoughtTokens)}</td>
+                          <td className="px-2 py-1.5 text-right font-mono">{dayCost === null ? '—' : formatCost(dayCost)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">价格表</h3>
+              <Button type="button" variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={handleResetPrices}>
+                <RotateCcw className="h-3.5 w-3.5" />
+                恢复默认
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              模型名支持前缀匹配；思考 token 按输出价格计算，图片输出价格留空时按输出价格计算。
+            </p>
+            <div className="grid grid-cols-[minmax(0,2fr)_repeat(3,minmax(0,1fr))_auto] items-end gap-2">
+              <Label className="text-xs">模型</Label>
+              <Label className="text-xs">输入</Label>
+              <Label className="text-xs">输出</Label>
+              <Label className="text-xs">图片输出</Label>
+              <span />
+              {drafts.map((draft, idx) => (
+                <div key={idx} className="contents">
+                  <Input
+                    value={draft.model}
+                    onChange={(e) => updateDraft(idx, { model: e.target.value })}
+                    placeholder="gemini-3-pro-image-preview"
+                    className="h-8 font-mono text-xs"
+                  />
+                  {(['input', 'output', 'imageOutput'] as const).map((field) => (
+                    <Input
+                      key={field}
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={draft[field]}
+                      onChange={(e) => updateDraft(idx, { [field]: e.target.value })}
+                      className="h-8 text-xs"
+                    />
+                  ))}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 hover:text-destructive"
+                    onClick={() => setDrafts((prev) => prev.filter((_, index) => index !== idx))}
+                    title="删除"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => setDrafts((prev) => [...prev, { model: '', input: '', output: '', imageOutput: '' }])}
+            >
+              <Plus className="h-4 w-4" />
+              添加模型价格
+            </Button>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </section>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            取消
+          </Button>
+          <Button onClick={handleSave}>保存价格表</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,52 @@
 import { useCallback, useEffect, useReducer, useRef } from 'react';
-import { geminiClient } from '../services/geminiClient';
-import { openaiClient } from '../services/openaiClient';
-import { apiConfig } from '../utils/apiConfig';
+import { GEMINI_CANCELLED_CODE, geminiClient } from '../services/geminiClient';
+import { OPENAI_CANCELLED_CODE, openaiClient } from '../services/openaiClient';
+import { openaiImagesClient } from '../services/openaiImagesClient';
+import { classifyError } from '../services/errors';
+import { runWithFailover } from '../services/failover';
+import type { RetryStatus } from '../services/retry';
+import {
+  API_TYPE_LABELS,
+  apiConfig,
+  MIN_COMPARE_TARGETS,
+  supportsImageEdit,
+  supportsImageOptions,
+  supportsMask,
+  supportsSearch,
+  type ApiProfile,
+  type ApiTarget,
+  type ApiType,
+  type CompareTarget,
+} from '../utils/apiConfig';
+import { chatStorage, type ConversationSummary, type PersistedChatPayload } from '../utils/chatStorage';
+import { createChatArchive, downloadChatArchive, parseChatArchive, restoreChatArchive } from '../utils/chatArchive';
 import { createSessionId } from '../utils/session';
 import { limitUploads, toUploadItems } from '../utils/files';
-import type { UploadItem, ChatMessage, ChatMode, AspectRatio, ImageSize, RetryContext } from '../types';
-import type { GeminiContentPart, GeminiInlineDataInput, GeminiMessage, GeminiResult } from '@/types/gemini';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { GENERATION_PARAM_LIMITS, hasGenerationParams, normalizeGenerationParams } from '../utils/generationParams';
+import { usageStats } from '../utils/usageStats';
+import type {
+  UploadItem,
+  ChatMessage,
+  ChatMessageVariant,
+  ChatMode,
+  FailoverRecord,
+  MessageSource,
+  AspectRatio,
+  ImageSize,
+  RetryContext,
+  TokenUsage,
+} from '../types';
+import type {
+  GeminiContentPart,
+  GeminiInlineDataInput,
+  GeminiMessage,
+  GeminiResult,
+  GeminiResultCandidate,
+  GeminiSafetySetting,
+  GeminiSamplingParams,
+  GeminiStreamUpdate,
+} from '@/types/gemini';
 
 const messageId = (): string =>
   (crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}_${Math.random().toString(36).slice(2, 9)}`);
@@ -20,7 +61,9 @@ enum ChatRequestKind {
 }
 
 const FORCE_IMAGE_GUIDANCE_STORAGE_KEY = 'gemini_force_image_guidance';
-const CHAT_PERSIST_STORAGE_KEY = 'gemini_chat_persist_v1';
+
+// 对话变化后延迟写入 IndexedDB，避免输入过程中频繁写盘
+const PERSIST_DEBOUNCE_MS = 500;
 
 const readForceImageGuidance = (): boolean => {
   if (typeof window === 'undefined') return false;
@@ -44,120 +87,64 @@ const writeForceImageGuidance = (value: boolean): void => {
   }
 };
 
+export type BatchProgress = {
+  done: number;
+  total: number;
+  isComparison: boolean;
+};
+
 export type ChatState = {
   sessionId: string;
+  /**
+   * 会话标题（为空时按第一条消息自动生成）
+   */
+  title: string;
   messages: ChatMessage[];
   history: GeminiMessage[];
   prompt: string;
   aspectRatio: AspectRatio;
   imageSize: ImageSize;
   forceImageGuidance: boolean;
+  /**
+   * 当前会话的系统指令（人设），随会话保存
+   */
+  systemInstruction: string;
+  /**
+   * 采样参数（温度、种子等），只包含已设置的字段，随会话保存
+   */
+  generationParams: GeminiSamplingParams;
+  /**
+   * 每次发送并行生成的变体数量（1 表示不批量）
+   */
+  variationCount: number;
+  /**
+   * 对比模式：同一提示词同时发给多个目标
+   */
+  compareMode: boolean;
+  /**
+   * 批量生成 / 对比进度（未批量请求时为 null）
+   */
+  batchProgress: BatchProgress | null;
+  /**
+   * 请求过程中的状态提示（如自动切换配置），展示在加载层
+   */
+  requestNotice: string | null;
+  /**
+   * 已保存的会话列表（侧边栏）
+   */
+  conversations: ConversationSummary[];
+  /**
+   * 是否存在除当前会话外最近保存的会话（用于空白页「快速加载」）
+   */
   hasSavedConversation: boolean;
   savedConversationAt: string | null;
   uploadedImages: UploadItem[];
   lastImageData: string | null;
   loading: boolean;
-};
-
-type PersistedChatPayload = {
-  sessionId: string;
-  messages: ChatMessage[];
-  history: GeminiMessage[];
-  prompt: string;
-  aspectRatio: AspectRatio;
-  imageSize: ImageSize;
-  forceImageGuidance: boolean;
-  lastImageData: string | null;
-};
-
-type PersistedChat = {
-  version: 1;
-  savedAt: string;
-  payload: PersistedChatPayload;
-};
-
-const parsePersistedChat = (raw: string): PersistedChat | null => {
-  if (!raw) return null;
-
-  try {
-    const parsed = JSON.parse(raw) as PersistedChat;
-    if (!parsed || typeof parsed !== 'object') return null;
-    if (parsed.version !== 1) return null;
-    if (!parsed.savedAt || typeof parsed.savedAt !== 'string') return null;
-    if (!parsed.payload || typeof parsed.payload !== 'object') return null;
-    return parsed;
-  } catch {
-    return null;
-  }
-};
-
-const readPersistedChat = (): PersistedChat | null => {
-  if (typeof window === 'undefined') return null;
-
-  try {
-    const raw = window.localStorage?.getItem(CHAT_PERSIST_STORAGE_KEY) || '';
-    return parsePersistedChat(raw);
-  } catch (error) {
-    console.warn('无法从 localStorage 读取对话记录：', error);
-    return null;
-  }
-};
-
-const slimPersistPayload = (payload: PersistedChatPayload): PersistedChatPayload => {
-  const slimMessages = payload.messages.map((m) => ({
-    ...m,
-    images: undefined,
-    imageData: undefined,
-  }));
-
-  const slimHistory = payload.history.map((msg) => ({
-    role: msg.role,
-    parts: msg.parts
-      .filter((p) => typeof p.text === 'string' && p.text.trim().length > 0)
-      .map((p) => ({ text: p.text as string })),
-  }));
-
-  return {
-    ...payload,
-    messages: slimMessages,
-    history: slimHistory,
-    lastImageData: null,
-  };
-};
-
-const writePersistedChat = (payload: PersistedChatPayload): { savedAt: string; didFallback: boolean } => {
-  if (typeof window === 'undefined') return { savedAt: '', didFallback: false };
-
-  const savedAt = new Date().toISOString();
-  const full: PersistedChat = { version: 1, savedAt, payload };
-
-  try {
-    window.localStorage?.setItem(CHAT_PERSIST_STORAGE_KEY, JSON.stringify(full));
-    return { savedAt, didFallback: false };
-  } catch (error) {
-    try {
-      const slim: PersistedChat = { version: 1, savedAt, payload: slimPersistPayload(payload) };
-      window.localStorage?.setItem(CHAT_PERSIST_STORAGE_KEY, JSON.stringify(slim));
-      return { savedAt, didFallback: true };
-    } catch (error2) {
-      console.warn('无法写入对话记录到 localStorage：', error2);
-      return { savedAt, didFallback: true };
-    }
-  }
-};
-
-const clearPersistedChat = (): void => {
-  if (typeof window === 'undefined') return;
-  try {
-    window.localStorage?.removeItem(CHAT_PERSIST_STORAGE_KEY);
-  } catch (error) {
-    console.warn('无法清理对话记录：', error);
-  }
-};
-
-const readSavedConversationMeta = (): { hasSavedConversation: boolean; savedConversationAt: string | null } => {
-  const saved = readPersistedChat();
-  return { hasSavedConversation: !!saved, savedConversationAt: saved?.savedAt || null };
+  /**
+   * 流式响应中正在接收内容的助手消息 ID
+   */
+  streamingMessageId: string | null;
 };
 
 const dataUrlToInlineData = (dataUrl: string): GeminiInlineDataInput | null => {
@@ -188,13 +175,21 @@ const rebuildHistoryFromMessages = (messages: ChatMessage[]): GeminiMessage[] =>
 
     // assistant
     const parts: GeminiContentPart[] = [];
-    const textParts = (msg.parts || []).filter((p) => p.text && !p.thought).map((p) => p.text);
-    if (textParts.length > 0) {
-      parts.push({ text: textParts.join('\n\n') });
-    } else if (msg.text) {
+    (msg.parts || []).forEach((p) => {
+      if (p.thought) return;
+      // 思考签名随片段放回 history（见 geminiClient 的 cloneHistory）
+      const signature = p.thoughtSignature ? { thoughtSignature: p.thoughtSignature } : {};
+      if (p.image?.data) {
+        parts.push({ inline_data: { mime_type: p.image.mimeType || 'image/png', data: p.image.data }, ...signature });
+      } else if (p.text || p.thoughtSignature) {
+        parts.push({ text: p.text || '', ...signature });
+      }
+    });
+    if (!parts.some((p) => p.text || p.inline_data) && msg.text) {
       parts.push({ text: msg.text });
     }
-    if (msg.imageData) {
+    // 旧记录只有 imageData，没有按顺序排列的图片片段
+    if (msg.imageData && !parts.some((p) => p.inline_data)) {
       parts.push({ inline_data: { mime_type: 'image/png', data: msg.imageData } });
     }
     history.push({ role: 'model', parts: parts.length ? parts : [{ text: '' }] });
@@ -216,13 +211,25 @@ type ChatAction =
   | { type: 'setAspectRatio'; payload: AspectRatio }
   | { type: 'setImageSize'; payload: ImageSize }
   | { type: 'setForceImageGuidance'; payload: boolean }
-  | { type: 'setSavedConversationMeta'; payload: { hasSavedConversation: boolean; savedConversationAt: string | null } }
+  | { type: 'setSystemInstruction'; payload: string }
+  | { type: 'setGenerationParams'; payload: GeminiSamplingParams }
+  | { type: 'setVariationCount'; payload: number }
+  | { type: 'setCompareMode'; payload: boolean }
+  | { type: 'setBatchProgress'; payload: BatchProgress | null }
+  | { type: 'setRequestNotice'; payload: string | null }
+  | { type: 'selectVariant'; payload: { messageId: string; index: number } }
+  | { type: 'setTitle'; payload: string }
+  | { type: 'setConversations'; payload: ConversationSummary[] }
   | { type: 'restoreSavedConversation'; payload: { savedAt: string; payload: PersistedChatPayload } }
   | { type: 'deleteMessage'; payload: string }
   | { type: 'addUploads'; payload: UploadItem[] }
   | { type: 'removeUpload'; payload: string }
+  | { type: 'toggleUploadMask'; payload: string }
   | { type: 'clearUploads' }
   | { type: 'appendMessage'; payload: ChatMessage }
+  | { type: 'upsertMessage'; payload: ChatMessage }
+  | { type: 'removeMessage'; payload: string }
+  | { type: 'setStreamingMessage'; payload: string | null }
   | { type: 'setHistory'; payload: GeminiMessage[] }
   | { type: 'setLastImage'; payload: string | null }
   | { type: 'setLoading'; payload: boolean }
@@ -230,16 +237,61 @@ type ChatAction =
 
 const createInitialState = (): ChatState => ({
   sessionId: createSessionId(),
+  title: '',
   messages: [],
   history: [],
   prompt: '',
   aspectRatio: '1:1',
   imageSize: '2K',
   forceImageGuidance: readForceImageGuidance(),
-  ...readSavedConversationMeta(),
+  systemInstruction: '',
+  generationParams: {},
+  variationCount: 1,
+  compareMode: false,
+  batchProgress: null,
+  requestNotice: null,
+  conversations: [],
+  hasSavedConversation: false,
+  savedConversationAt: null,
   uploadedImages: [],
   lastImageData: null,
   loading: false,
+  streamingMessageId: null,
+});
+
+const findLatestOtherConversation = (
+  conversations: ConversationSummary[],
+  sessionId: string
+): ConversationSummary | null =>
+  conversations
+    .filter((c) => c.id !== sessionId)
+    .reduce<ConversationSummary | null>(
+      (latest, c) => (!latest || c.updatedAt > latest.updatedAt ? c : latest),
+      null
+    );
+
+const withConversations = (state: ChatState, conversations: ConversationSummary[]): ChatState => {
+  const latest = findLatestOtherConversation(conversations, state.sessionId);
+  return {
+    ...state,
+    conversations,
+    hasSavedConversation: !!latest,
+    savedConversationAt: latest?.updatedAt || null,
+  };
+};
+
+const toPersistedPayload = (state: ChatState): PersistedChatPayload => ({
+  sessionId: state.sessionId,
+  title: state.title || undefined,
+  messages: state.messages,
+  history: state.history,
+  prompt: state.prompt,
+  aspectRatio: state.aspectRatio,
+  imageSize: state.imageSize,
+  forceImageGuidance: state.forceImageGuidance,
+  systemInstruction: state.systemInstruction || undefined,
+  generationParams: hasGenerationParams(state.generationParams) ? state.generationParams : undefined,
+  lastImageData: state.lastImageData,
 });
 
 function chatReducer(state: ChatState, action: ChatAction): ChatState {
@@ -252,29 +304,70 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       return { ...state, imageSize: action.payload };
     case 'setForceImageGuidance':
       return { ...state, forceImageGuidance: action.payload };
-    case 'setSavedConversationMeta':
+    case 'setSystemInstruction':
+      return { ...state, systemInstruction: action.payload };
+    case 'setGenerationParams':
+      return { ...state, generationParams: action.payload };
+    case 'setVariationCount':
+      return { ...state, variationCount: action.payload };
+    case 'setCompareMode':
+      return { ...state, compareMode: action.payload };
+    case 'setBatchProgress':
+      return { ...state, batchProgress: action.payload };
+    case 'setRequestNotice':
+      return { ...state, requestNotice: action.payload };
+    case 'selectVariant': {
+      const { messageId: targetId, index } = action.payload;
+      const nextMessages = state.messages.map((m) => {
+        const variant = m.id === targetId ? m.variants?.[index] : undefined;
+        if (!variant || variant.error) return m;
+        return {
+          ...m,
+          text: variant.text,
+          parts: variant.parts,
+          imageData: variant.imageData,
+          finishInfo: variant.finishInfo,
+          groundingMetadata: variant.groundingMetadata,
+          generationParams: variant.generationParams,
+          selectedVariant: index,
+        };
+      });
+      // 选用的变体进入后续对话上下文
       return {
         ...state,
-        hasSavedConversation: action.payload.hasSavedConversation,
-        savedConversationAt: action.payload.savedConversationAt,
+        messages: nextMessages,
+        history: rebuildHistoryFromMessages(nextMessages),
+        lastImageData: resolveLastImageData(nextMessages),
       };
+    }
+    case 'setTitle':
+      return { ...state, title: action.payload };
+    case 'setConversations':
+      return withConversations(state, action.payload);
     case 'restoreSavedConversation': {
-      const { payload, savedAt } = action.payload;
-      return {
-        ...state,
-        sessionId: payload.sessionId || createSessionId(),
-        messages: payload.messages || [],
-        history: payload.history || [],
-        prompt: payload.prompt || '',
-        aspectRatio: payload.aspectRatio || '1:1',
-        imageSize: payload.imageSize || '2K',
-        forceImageGuidance: payload.forceImageGuidance ?? state.forceImageGuidance,
-        uploadedImages: [],
-        lastImageData: payload.lastImageData || resolveLastImageData(payload.messages || []),
-        loading: false,
-        hasSavedConversation: true,
-        savedConversationAt: savedAt,
-      };
+      const { payload } = action.payload;
+      return withConversations(
+        {
+          ...state,
+          sessionId: payload.sessionId || createSessionId(),
+          title: payload.title || '',
+          messages: payload.messages || [],
+          history: payload.history || [],
+          prompt: payload.prompt || '',
+          aspectRatio: payload.aspectRatio || '1:1',
+          imageSize: payload.imageSize || '2K',
+          forceImageGuidance: payload.forceImageGuidance ?? state.forceImageGuidance,
+          systemInstruction: payload.systemInstruction || '',
+          generationParams: normalizeGenerationParams(payload.generationParams),
+          uploadedImages: [],
+          lastImageData: payload.lastImageData || resolveLastImageData(payload.messages || []),
+          loading: false,
+          streamingMessageId: null,
+          batchProgress: null,
+          requestNotice: null,
+        },
+        state.conversations
+      );
     }
     case 'deleteMessage': {
       const nextMessages = state.messages.filter((m) => m.id !== action.payload);
@@ -291,10 +384,33 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
       return { ...state, uploadedImages: [...state.uploadedImages, ...action.payload] };
     case 'removeUpload':
       return { ...state, uploadedImages: state.uploadedImages.filter((img) => img.id !== action.payload) };
+    case 'toggleUploadMask':
+      // 最多一张蒙版
+      return {
+        ...state,
+        uploadedImages: state.uploadedImages.map((img) => ({
+          ...img,
+          isMask: img.id === action.payload ? !img.isMask : false,
+        })),
+      };
     case 'clearUploads':
       return { ...state, uploadedImages: [] };
     case 'appendMessage':
       return { ...state, messages: [...state.messages, action.payload] };
+    case 'upsertMessage': {
+      const exists = state.messages.some((m) => m.id === action.payload.id);
+      return {
+        ...state,
+        messages: exists
+          ? state.messages.map((m) => (m.id === action.payload.id ? action.payload : m))
+          : [...state.messages, action.payload],
+      };
+    }
+    case 'removeMessage':
+      // 仅移除消息本身，不重建 history（用于丢弃未完成的流式消息）
+      return { ...state, messages: state.messages.filter((m) => m.id !== action.payload) };
+    case 'setStreamingMessage':
+      return { ...state, streamingMessageId: action.payload };
     case 'setHistory':
       return { ...state, history: action.payload };
     case 'setLastImage':
@@ -302,7 +418,8 @@ function chatReducer(state: ChatState, action: ChatAction): ChatState {
     case 'setLoading':
       return { ...state, loading: action.payload };
     case 'reset':
-      return createInitialState();
+      // 新建会话：已保存的会话仍保留在列表中
+      return withConversations(createInitialState(), state.conversations);
     default:
       return state;
   }
@@ -323,6 +440,37 @@ const toSystemMessage = (text: string, isError = false, retryContext?: RetryCont
   timestamp: now(),
 });
 
+/**
+ * 请求失败的错误消息：附带错误分类与处理建议
+ */
+const toErrorMessage = (
+  error: unknown,
+  retryContext: RetryContext,
+  target: ApiTarget = apiConfig.getCurrentTarget(),
+  suffix = ''
+): ChatMessage => {
+  const message = error instanceof Error ? error.message : '未知错误';
+  return {
+    ...toSystemMessage(`错误：${message}${suffix}`, true, retryContext),
+    errorInfo: classifyError(error, { requestMode: target.requestMode, url: target.url }),
+  };
+};
+
+const toCancelledMessage = (retryContext: RetryContext): ChatMessage => ({
+  id: messageId(),
+  role: 'system',
+  text: '已取消本次生成',
+  isCancelled: true,
+  retryContext,
+  timestamp: now(),
+});
+
+const isCancelledError = (error: unknown): boolean =>
+  !!error &&
+  typeof error === 'object' &&
+  'code' in error &&
+  (error.code === GEMINI_CANCELLED_CODE || error.code === OPENAI_CANCELLED_CODE);
+
 const toUserMessage = (text: string, images: string[]): ChatMessage => ({
   id: messageId(),
   role: 'user',
@@ -331,8 +479,38 @@ const toUserMessage = (text: string, images: string[]): ChatMessage => ({
   timestamp: now(),
 });
 
-const toAssistantMessage = (response: GeminiResult, retryContext?: RetryContext): ChatMessage => ({
-  id: messageId(),
+const resolveMessageSource = (): MessageSource => {
+  const profile = apiConfig.getActiveProfile();
+  const target = apiConfig.getCurrentTarget();
+  return {
+    profileId: profile?.id,
+    profileName: profile?.name,
+    apiType: target.apiType,
+    model: target.model,
+  };
+};
+
+const toProfileSource = (profile: ApiProfile): MessageSource => ({
+  profileId: profile.id || undefined,
+  profileName: profile.name || undefined,
+  apiType: profile.apiType,
+  model: profile.model,
+});
+
+const toVariant = (response: GeminiResultCandidate): ChatMessageVariant => ({
+  text: response.text,
+  parts: response.parts?.length ? response.parts : undefined,
+  imageData: response.imageData ?? undefined,
+  finishInfo: response.finishInfo,
+  groundingMetadata: response.groundingMetadata,
+});
+
+const toAssistantMessage = (
+  response: GeminiStreamUpdate,
+  retryContext?: RetryContext,
+  id: string = messageId()
+): ChatMessage => ({
+  id,
   role: 'assistant',
   text: response.text,
   parts: response.parts?.length ? response.parts : undefined,
@@ -345,61 +523,125 @@ type RequestContext = {
   promptText: string;
   labelledPrompt: string;
   imageDataList: GeminiInlineDataInput[];
+  /**
+   * 标记为蒙版的上传图片（仅 OpenAI Images API 使用）
+   */
+  maskData?: GeminiInlineDataInput;
   history: GeminiMessage[];
   aspectRatio: AspectRatio;
   imageSize: ImageSize;
   lastImageData: string | null;
+  safetySettings?: GeminiSafetySetting[];
+  systemInstruction?: string;
+  generationParams?: GeminiSamplingParams;
+  onProgress?: (update: GeminiStreamUpdate) => void;
+  onRetry?: (status: RetryStatus) => void;
+  signal?: AbortSignal;
+  target?: ApiTarget;
 };
 
-const getClient = () => {
-  const apiType = apiConfig.getType();
+const getApiType = (target?: ApiTarget): ApiType => target?.apiType ?? apiConfig.getType();
+
+const getClient = (target?: ApiTarget) => {
+  const apiType = getApiType(target);
+  if (apiType === 'openai-images') return openaiImagesClient;
   return apiType === 'openai' ? openaiClient : geminiClient;
 };
 
+// 各类请求共用的调用参数
+const toCallOptions = ({
+  aspectRatio,
+  imageSize,
+  history,
+  safetySettings,
+  systemInstruction,
+  generationParams,
+  onProgress,
+  onRetry,
+  signal,
+  target,
+}: RequestContext) => ({
+  aspectRatio,
+  imageSize,
+  history,
+  safetySettings,
+  systemInstruction,
+  generationParams,
+  onProgress,
+  onRetry,
+  signal,
+  target,
+});
+
 const requestHandlers: Record<ChatRequestKind, (ctx: RequestContext) => Promise<GeminiResult>> = {
-  [ChatRequestKind.Edit]: ({ lastImageData, promptText, aspectRatio, imageSize, history }) => {
-    if (!lastImageData) {
+  [ChatRequestKind.Edit]: (ctx) => {
+    if (!ctx.lastImageData) {
       return Promise.reject(new Error('没有可编辑的图片'));
     }
-    const client = getClient();
+    // Images API：上传的图片作为额外参考图，标记为蒙版的图片作为蒙版
+    if (getApiType(ctx.target) === 'openai-images') {
+      return openaiImagesClient.editImage({
+        ...toCallOptions(ctx),
+        imageData: ctx.lastImageData,
+        editPrompt: ctx.promptText,
+        referenceImages: ctx.imageDataList,
+        mask: ctx.maskData,
+      });
+    }
+    const client = getClient(ctx.target);
     return client.editImage({
-      imageData: lastImageData,
-      editPrompt: promptText,
-      aspectRatio,
-      imageSize,
-      history,
+      ...toCallOptions(ctx),
+      imageData: ctx.lastImageData,
+      editPrompt: ctx.promptText,
     });
   },
-  [ChatRequestKind.Composite]: ({ labelledPrompt, imageDataList, aspectRatio, imageSize, history }) => {
-    const client = getClient();
+  [ChatRequestKind.Composite]: (ctx) => {
+    if (getApiType(ctx.target) === 'openai-images') {
+      return openaiImagesClient.compositeImages({
+        ...toCallOptions(ctx),
+        prompt: ctx.labelledPrompt,
+        imageDataList: ctx.imageDataList,
+        mask: ctx.maskData,
+      });
+    }
+    const client = getClient(ctx.target);
     return client.compositeImages({
-      prompt: labelledPrompt,
-      imageDataList,
-      aspectRatio,
-      imageSize,
-      history,
+      ...toCallOptions(ctx),
+      prompt: ctx.labelledPrompt,
+      imageDataList: ctx.imageDataList,
     });
   },
-  [ChatRequestKind.Search]: ({ promptText, aspectRatio, imageSize, history }) => {
-    const client = getClient();
+  [ChatRequestKind.Search]: (ctx) => {
+    const client = getClient(ctx.target);
     return client.generateWithSearch({
-      prompt: promptText,
-      aspectRatio,
-      imageSize,
-      history,
+      ...toCallOptions(ctx),
+      prompt: ctx.promptText,
     });
   },
-  [ChatRequestKind.Generate]: ({ labelledPrompt, aspectRatio, imageSize, history }) => {
-    const client = getClient();
+  [ChatRequestKind.Generate]: (ctx) => {
+    const client = getClient(ctx.target);
     return client.generateImage({
-      prompt: labelledPrompt,
-      aspectRatio,
-      imageSize,
-      history,
+      ...toCallOptions(ctx),
+      prompt: ctx.labelledPrompt,
     });
   },
 };
 
+/**
+ * 拆出标记为蒙版的上传图片：只有单独使用 OpenAI Images API 时支持蒙版，其他情况仍作为普通参考图发送
+ */
+const splitUploads = (
+  items: Array<{ base64: string; mimeType: string; isMask?: boolean }>,
+  supportsMask: boolean
+): { imageDataList: GeminiInlineDataInput[]; maskData?: GeminiInlineDataInput } => {
+  const toInput = ({ base64, mimeType }: { base64: string; mimeType: string }) => ({ data: base64, mimeType });
+  const mask = supportsMask ? items.find((item) => item.isMask) : undefined;
+  return {
+    imageDataList: items.filter((item) => item !== mask).map(toInput),
+    maskData: mask && toInput(mask),
+  };
+};
+
 const resolveRequestKind = (mode: ChatMode, hasUploads: boolean): ChatRequestKind => {
   if (mode === 'edit') return ChatRequestKind.Edit;
   if (hasUploads) return ChatRequestKind.Composite;
@@ -407,6 +649,77 @@ const resolveRequestKind = (mode: ChatMode, hasUploads: boolean): ChatRequestKin
   return ChatRequestKind.Generate;
 };
 
+// 批量生成时的最大并发请求数（对比模式各目标同时请求）
+const MAX_CONCURRENT_VARIATIONS = 2;
+
+type BatchSlot = {
+  target?: ApiTarget;
+  label?: string;
+};
+
+const toRetryNotice = ({ attempt, maxAttempts, delayMs, status, phase }: RetryStatus, label?: string): string => {
+  const prefix = label ? `「${label}」` : '';
+  if (phase === 'retrying') {
+    return `${prefix}正在重试（第 ${attempt}/${maxAttempts} 次）…`;
+  }
+  const seconds = Math.max(1, Math.ceil(delayMs / 1000));
+  const reason = status ? `HTTP ${status}` : '网络错误';
+  return `${prefix}请求失败（${reason}），${seconds} 秒后重试（第 ${attempt}/${maxAttempts} 次）…`;
+};
+
+const toTargetLabel = (target: ApiTarget): string => `${API_TYPE_LABELS[target.apiType]} · ${target.model || '默认模型'}`;
+
+const isUnsupportedMode = (mode: ChatMode, apiType: ApiType): boolean =>
+  (mode === 'edit' && !supportsImageEdit(apiType)) || (mode === 'search' && !supportsSearch(apiType));
+
+const isUnsupportedForTarget = (requestKind: ChatRequestKind, target?: ApiTarget): boolean =>
+  !!target &&
+  ((requestKind === ChatRequestKind.Edit && !supportsImageEdit(target.apiType)) ||
+    (requestKind === ChatRequestKind.Search && !supportsSearch(target.apiType)));
+
+// 不支持画幅与分辨率的接口使用安全的默认值，避免不支持的参数影响请求
+const withTarget = (requestContext: RequestContext, target?: ApiTarget): RequestContext =>
+  target && !supportsImageOptions(target)
+    ? { ...requestContext, aspectRatio: '1:1', imageSize: '1K', target }
+    : { ...requestContext, target };
+
+/**
+ * 批量生成的第 index 个请求：每个请求只取一个候选；固定种子时依次递增，
+ * 使各变体互不相同且都能按记录的种子复现（对比模式各目标使用相同参数）
+ */
+const toSlotParams = (params: GeminiSamplingParams = {}, index: number, isComparison: boolean): GeminiSamplingParams => {
+  const { seed } = params;
+  const slotParams = { ...params, candidateCount: undefined };
+  if (isComparison || seed === undefined) return slotParams;
+  return { ...slotParams, seed: (seed + index) % (GENERATION_PARAM_LIMITS.seed.max + 1) };
+};
+
+/**
+ * 单次请求的故障转移链：当前设置在前，其后为设置中启用的备用配置（跳过不支持该请求的配置）
+ */
+const resolveFailoverProfiles = (requestKind: ChatRequestKind, hasMask: boolean): ApiProfile[] => {
+  const active = apiConfig.getActiveProfile();
+  const primary: ApiProfile = {
+    id: active?.id || '',
+    name: active?.name || '当前配置',
+    ...apiConfig.getCurrentTarget(),
+  };
+  // 带蒙版的请求不切换到无法使用蒙版的配置，否则会变成不带蒙版的整图编辑
+  const fallbacks = apiConfig
+    .getFailoverProfiles()
+    .filter((profile) => !isUnsupportedForTarget(requestKind, profile) && (!hasMask || supportsMask(profile.apiType)));
+  return [primary, ...fallbacks];
+};
+
+const resolveCompareTargets = (ids: string[]): CompareTarget[] => {
+  const targets = apiConfig.getCompareTargets();
+  return ids
+    .map((id) => targets.find((target) => target.id === id))
+    .filter((target): target is CompareTarget => !!target);
+};
+
+const MAX_VARIATIONS = 4;
+
 const normalizeFiles = (files?: FileList | File[] | null): File[] => {
   if (!files) return [];
   if (Array.isArray(files)) return files;
@@ -418,15 +731,28 @@ export type ChatActions = {
   setAspectRatio: (value: AspectRatio) => void;
   setImageSize: (value: ImageSize) => void;
   setForceImageGuidance: (value: boolean) => void;
+  setSystemInstruction: (value: string) => void;
+  setGenerationParams: (value: GeminiSamplingParams) => void;
+  setVariationCount: (value: number) => void;
+  setCompareMode: (value: boolean) => void;
+  selectVariant: (messageId: string, index: number) => void;
   addUploads: (files?: FileList | File[] | null) => Promise<void>;
   removeUpload: (id: string) => void;
+  toggleUploadMask: (id: string) => void;
   deleteMessage: (id: string) => void;
-  restoreSavedConversation: () => void;
+  restoreSavedConversation: () => Promise<void>;
   clearSavedConversation: () => void;
+  switchConversation: (id: string) => Promise<void>;
+  renameConversation: (id: string, title: string) => void;
+  togglePinConversation: (id: string) => void;
+  deleteConversation: (id: string) => void;
+  exportConversation: (id: string) => Promise<void>;
+  importConversation: (file: File) => Promise<void>;
   sendPrompt: (mode?: ChatMode) => Promise<void>;
   retryRequest: (ctx: RetryContext, errorMessageId: string) => Promise<void>;
+  cancelRequest: () => void;
   reset: () => Promise<void>;
-  downloadImage: (base64: string) => void;
+  downloadImage: (base64: string, mimeType?: string) => void;
 };
 
 export type UseChatSessionResult = {
@@ -451,7 +777,39 @@ const applyForceImageGuidance = (prompt: string): string => {
 export function useChatSession(): UseChatSessionResult {
   const [state, dispatch] = useReducer(chatReducer, undefined, createInitialState);
   const didPersistRef = useRef(false);
+  const skipNextPersistRef = useRef(false);
+  const pendingPersistRef = useRef<PersistedChatPayload | null>(null);
   const isSubmittingRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const refreshConversations = useCallback(
+    () =>
+      chatStorage
+        .list()
+        .then((conversations) => dispatch({ type: 'setConversations', payload: conversations }))
+        .catch((error) => console.warn('无法从 IndexedDB 读取会话列表：', error)),
+    []
+  );
+
+  const persistConversation = useCallback(
+    (payload: PersistedChatPayload) =>
+      chatStorage
+        .write(payload)
+        .then(refreshConversations)
+        .catch((error) => console.warn('无法写入对话记录到 IndexedDB：', error)),
+    [refreshConversations]
+  );
+
+  // 切换 / 新建会话前立即写入尚在防抖中的改动，避免丢失
+  const flushPendingPersist = useCallback(() => {
+    const pending = pendingPersistRef.current;
+    pendingPersistRef.current = null;
+    if (pending) void persistConversation(pending);
+  }, [persistConversation]);
+
+  useEffect(() => {
+    void refreshConversations();
+  }, [refreshConversations]);
 
   useEffect(() => {
     if (!didPersistRef.current) {
@@ -459,47 +817,52 @@ export function useChatSession(): UseChatSessionResult {
       return;
     }
 
+    // 刚从存储中加载的会话无需立即回写
+    if (skipNextPersistRef.current) {
+      skipNextPersistRef.current = false;
+      return;
+    }
+
+    // 流式接收中不落盘，等最终结果写入后再保存
+    if (state.streamingMessageId) return;
+
     const hasConversation =
       state.messages.length > 0 || state.history.length > 0 || Boolean(state.lastImageData);
 
     if (!hasConversation) {
-      if (state.hasSavedConversation) {
-        clearPersistedChat();
-        dispatch({
-          type: 'setSavedConversationMeta',
-          payload: { hasSavedConversation: false, savedConversationAt: null },
-        });
+      // 当前会话的消息被全部删除：同步移除已保存的记录
+      pendingPersistRef.current = null;
+      if (state.conversations.some((c) => c.id === state.sessionId)) {
+        chatStorage
+          .remove(state.sessionId)
+          .then(refreshConversations)
+          .catch((error) => console.warn('无法清理对话记录：', error));
       }
       return;
     }
 
-    const persistedPayload: PersistedChatPayload = {
-      sessionId: state.sessionId,
-      messages: state.messages,
-      history: state.history,
-      prompt: state.prompt,
-      aspectRatio: state.aspectRatio,
-      imageSize: state.imageSize,
-      forceImageGuidance: state.forceImageGuidance,
-      lastImageData: state.lastImageData,
-    };
-
-    const { savedAt } = writePersistedChat(persistedPayload);
-    if (!state.hasSavedConversation || state.savedConversationAt !== savedAt) {
-      dispatch({
-        type: 'setSavedConversationMeta',
-        payload: { hasSavedConversation: true, savedConversationAt: savedAt },
-      });
-    }
+    const persistedPayload = toPersistedPayload(state);
+
+    pendingPersistRef.current = persistedPayload;
+    const timer = window.setTimeout(() => {
+      pendingPersistRef.current = null;
+      void persistConversation(persistedPayload);
+    }, PERSIST_DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timer);
   }, [
     state.sessionId,
+    state.title,
     state.messages,
     state.history,
     state.prompt,
     state.aspectRatio,
     state.imageSize,
     state.forceImageGuidance,
+    state.systemInstruction,
+    state.generationParams,
     state.lastImageData,
+    state.streamingMessageId,
   ]);
 
   const addUploads = useCallback(
@@ -520,39 +883,412 @@ export function useChatSession(): UseChatSessionResult {
   );
 
   const removeUpload = useCallback((id: string) => dispatch({ type: 'removeUpload', payload: id }), []);
+  const toggleUploadMask = useCallback((id: string) => dispatch({ type: 'toggleUploadMask', payload: id }), []);
 
   const reset = useCallback(async () => {
-    const confirmed = window.confirm('重置对话？这将清除历史记录。');
-    if (!confirmed) return;
-    clearPersistedChat();
+    flushPendingPersist();
     dispatch({ type: 'reset' });
-  }, []);
+  }, [flushPendingPersist]);
 
-  const downloadImage = useCallback((base64: string) => {
+  const switchConversation = useCallback(
+    async (id: string) => {
+      if (isSubmittingRef.current || state.loading) return;
+      if (id === state.sessionId) return;
+
+      flushPendingPersist();
+      const saved = await chatStorage.read(id).catch((error) => {
+        console.warn('无法从 IndexedDB 读取对话记录：', error);
+        return null;
+      });
+      if (!saved) {
+        dispatch({ type: 'appendMessage', payload: toSystemMessage('没有找到可加载的历史对话', true) });
+        void refreshConversations();
+        return;
+      }
+
+      writeForceImageGuidance(saved.payload.forceImageGuidance);
+      skipNextPersistRef.current = true;
+      dispatch({ type: 'restoreSavedConversation', payload: { savedAt: saved.savedAt, payload: saved.payload } });
+    },
+    [state.loading, state.sessionId, flushPendingPersist, refreshConversations]
+  );
+
+  const renameConversation = useCallback(
+    (id: string, title: string) => {
+      if (id === state.sessionId) {
+        dispatch({ type: 'setTitle', payload: title.trim() });
+        return;
+      }
+      chatStorage
+        .rename(id, title)
+        .then(refreshConversations)
+        .catch((error) => console.warn('无法重命名会话：', error));
+    },
+    [state.sessionId, refreshConversations]
+  );
+
+  const togglePinConversation = useCallback(
+    (id: string) => {
+      const target = state.conversations.find((c) => c.id === id);
+      if (!target) return;
+      chatStorage
+        .setPinned(id, !target.pinned)
+        .then(refreshConversations)
+        .catch((error) => console.warn('无法置顶会话：', error));
+    },
+    [state.conversations, refreshConversations]
+  );
+
+  const deleteConversation = useCallback(
+    (id: string) => {
+      if (id === state.sessionId) {
+        if (state.loading) return;
+        pendingPersistRef.current = null;
+        dispatch({ type: 'reset' });
+      }
+      chatStorage
+        .remove(id)
+        .then(refreshConversations)
+        .catch((error) => console.warn('无法删除会话：', error));
+    },
+    [state.sessionId, state.loading, refreshConversations]
+  );
+
+  const exportConversation = useCallback(
+    async (id: string) => {
+      try {
+        const payload =
+          id === state.sessionId ? toPersistedPayload(state) : (await chatStorage.read(id))?.payload;
+        if (!payload) {
+          dispatch({ type: 'appendMessage', payload: toSystemMessage('没有找到可导出的对话', true) });
+          return;
+        }
+        downloadChatArchive(await createChatArchive(payload));
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        dispatch({ type: 'appendMessage', payload: toSystemMessage(`导出失败：${msg}`, true) });
+      }
+    },
+    [state]
+  );
+
+  const importConversation = useCallback(
+    async (file: File) => {
+      if (isSubmittingRef.current || state.loading) return;
+
+      const archive = parseChatArchive(await file.text().catch(() => ''));
+      if (!archive) {
+        dispatch({
+          type: 'appendMessage',
+          payload: toSystemMessage('导入失败：文件不是有效的对话归档，或归档版本不受支持', true),
+        });
+        return;
+      }
+
+      try {
+        const payload = await restoreChatArchive(archive);
+        flushPendingPersist();
+        const { savedAt } = await chatStorage.write(payload);
+        await refreshConversations();
+
+        writeForceImageGuidance(payload.forceImageGuidance);
+        skipNextPersistRef.current = true;
+        dispatch({ type: 'restoreSavedConversation', payload: { savedAt, payload } });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        dispatch({ type: 'appendMessage', payload: toSystemMessage(`导入失败：${msg}`, true) });
+      }
+    },
+    [state.loading, flushPendingPersist, refreshConversations]
+  );
+
+  const downloadImage = useCallback((base64: string, mimeType = 'image/png') => {
+    // 扩展名随图片格式（Images API 可能返回 JPEG / WebP）
+    const extension = (mimeType.split('/')[1] || 'png').replace('jpeg', 'jpg');
     const link = document.createElement('a');
-    link.href = `data:image/png;base64,${base64}`;
-    link.download = `gemini-${Date.now()}.png`;
+    link.href = `data:${mimeType};base64,${base64}`;
+    link.download = `gemini-${Date.now()}.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   }, []);
 
+  const runRequest = useCallback(
+    async (requestKind: ChatRequestKind, requestContext: RequestContext, retryCtx: RetryContext) => {
+      const assistantId = messageId();
+      const profiles = resolveFailoverProfiles(requestKind, !!requestContext.maskData);
+      const failoverFrom: FailoverRecord[] = [];
+      let source: MessageSource = toProfileSource(profiles[0]);
+      let currentProfile = profiles[0];
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      let streamStarted = false;
+
+      const onProgress = (update: GeminiStreamUpdate) => {
+        dispatch({
+          type: 'upsertMessage',
+          payload: { ...toAssistantMessage(update, undefined, assistantId), source, isStreaming: true },
+        });
+        if (!streamStarted) {
+          streamStarted = true;
+          dispatch({ type: 'setStreamingMessage', payload: assistantId });
+        }
+      };
+
+      const onRetry = (status: RetryStatus) => dispatch({ type: 'setRequestNotice', payload: toRetryNotice(status) });
+
+      try {
+        const { result: response } = await runWithFailover(
+          profiles,
+          (profile) => {
+            // 首个配置沿用调用方已处理好的上下文，备用配置按其类型调整参数
+            const context =
+              profile === profiles[0] ? { ...requestContext, target: profile } : withTarget(requestContext, profile);
+            return requestHandlers[requestKind]({ ...context, onProgress, onRetry, signal: controller.signal });
+          },
+          {
+            signal: controller.signal,
+            onFailover: ({ profile, error }, next) => {
+              // 丢弃失败配置已流式输出的部分内容，由下一个配置重新生成
+              if (streamStarted) {
+                streamStarted = false;
+                dispatch({ type: 'removeMessage', payload: assistantId });
+                dispatch({ type: 'setStreamingMessage', payload: null });
+              }
+              failoverFrom.push({
+                profileName: profile.name,
+                error: error instanceof Error ? error.message : String(error),
+              });
+              source = { ...toProfileSource(next), failoverFrom: [...failoverFrom] };
+              currentProfile = next;
+              dispatch({ type: 'setRequestNotice', payload: `「${profile.name}」请求失败，正在切换到「${next.name}」…` });
+            },
+          }
+        );
+        // 多个候选时作为变体展示，默认选用第一个
+        const candidates = response.candidates?.map(toVariant);
+        const usage: TokenUsage[] = response.usage ? [{ ...response.usage, model: currentProfile.model }] : [];
+        usageStats.record(usage);
+        const assistantMessage: ChatMessage = {
+          ...toAssistantMessage(response, retryCtx, assistantId),
+          finishInfo: response.finishInfo,
+          groundingMetadata: response.groundingMetadata,
+          source,
+          generationParams: hasGenerationParams(requestContext.generationParams)
+            ? requestContext.generationParams
+            : undefined,
+          usage: usage.length > 0 ? usage : undefined,
+          ...(candidates ? { variants: candidates, selectedVariant: 0 } : {}),
+        };
+
+        dispatch({ type: 'upsertMessage', payload: assistantMessage });
+        dispatch({ type: 'setHistory', payload: response.history });
+        if (response.imageData) {
+          dispatch({ type: 'setLastImage', payload: response.imageData });
+        }
+      } catch (error) {
+        if (streamStarted) {
+          dispatch({ type: 'removeMessage', payload: assistantId });
+        }
+        if (controller.signal.aborted || isCancelledError(error)) {
+          dispatch({ type: 'appendMessage', payload: toCancelledMessage(retryCtx) });
+          return;
+        }
+        const tried =
+          failoverFrom.length > 0
+            ? `（已依次尝试：${[...failoverFrom.map((f) => f.profileName), currentProfile.name].join(' → ')}）`
+            : '';
+        dispatch({ type: 'appendMessage', payload: toErrorMessage(error, retryCtx, currentProfile, tried) });
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+        dispatch({ type: 'setStreamingMessage', payload: null });
+        dispatch({ type: 'setRequestNotice', payload: null });
+        dispatch({ type: 'setLoading', payload: false });
+      }
+    },
+    []
+  );
+
+  const runBatch = useCallback(
+    async (requestKind: ChatRequestKind, requestContext: RequestContext, retryCtx: RetryContext, slots: BatchSlot[]) => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const isComparison = slots.some((slot) => slot.target);
+      // 对比模式下各列已标注目标，不再记录单一来源
+      const source = isComparison ? undefined : resolveMessageSource();
+      const total = slots.length;
+      let done = 0;
+      // 最近一条重试提示来自哪个请求；该请求结束时清除提示
+      let noticeSlot: number | null = null;
+      dispatch({ type: 'setBatchProgress', payload: { done, total, isComparison } });
+
+      try {
+        // 批量请求不做流式展示，全部完成后一次性展示
+        const results = await mapWithConcurrency(
+          slots,
+          isComparison ? total : MAX_CONCURRENT_VARIATIONS,
+          async ({ target, label }, index) => {
+            const startedAt = performance.now();
+            const onRetry = (status: RetryStatus) => {
+              noticeSlot = index;
+              dispatch({ type: 'setRequestNotice', payload: toRetryNotice(status, label ?? `变体 ${index + 1}`) });
+            };
+            const generationParams = toSlotParams(requestContext.generationParams, index, isComparison);
+            try {
+              if (target && isUnsupportedForTarget(requestKind, target)) {
+                throw new Error(`${API_TYPE_LABELS[target.apiType]} 接口不支持此功能`);
+              }
+              const response = await requestHandlers[requestKind]({
+                ...withTarget(requestContext, target),
+                generationParams,
+                onRetry,
+                signal: controller.signal,
+              });
+              return { response, generationParams, latencyMs: Math.round(performance.now() - startedAt) };
+            } catch (error) {
+              throw Object.assign(error instanceof Error ? error : new Error(String(error)), {
+                latencyMs: Math.round(performance.now() - startedAt),
+              });
+            } finally {
+              done += 1;
+              dispatch({ type: 'setBatchProgress', payload: { done, total, isComparison } });
+              if (noticeSlot === index) {
+                noticeSlot = null;
+                dispatch({ type: 'setRequestNotice', payload: null });
+              }
+            }
+          }
+        );
+
+        if (controller.signal.aborted) {
+          dispatch({ type: 'appendMessage', payload: toCancelledMessage(retryCtx) });
+          return;
+        }
+
+        const variants: ChatMessageVariant[] = results.map((result, idx) => {
+          const label = slots[idx].label;
+          if (result.status === 'fulfilled') {
+            const { response, generationParams, latencyMs } = result.value;
+            return {
+              ...toVariant(response),
+              label,
+              latencyMs,
+              generationParams: hasGenerationParams(generationParams) ? generationParams : undefined,
+            };
+          }
+          const reason = result.reason as Error & { latencyMs?: number };
+          return { text: '', error: reason?.message || '未知错误', label, latencyMs: reason?.latencyMs };
+        });
+        const selectedIndex = results.findIndex((result) => result.status === 'fulfilled');
+        const usage: TokenUsage[] = results.flatMap((result, idx) =>
+          result.status === 'fulfilled' && result.value.response.usage
+            ? [{ ...result.value.response.usage, model: (slots[idx].target ?? requestContext.target ?? apiConfig.getCurrentTarget()).model }]
+            : []
+        );
+        usageStats.record(usage);
+
+        // 对比模式下即使全部失败也按列展示各目标的错误
+        if (selectedIndex === -1 && !isComparison) {
+          const [firstResult] = results;
+          const reason = firstResult?.status === 'rejected' ? firstResult.reason : new Error('未知错误');
+          dispatch({ type: 'appendMessage', payload: toErrorMessage(reason, retryCtx) });
+          return;
+        }
+
+        const selected =
+          selectedIndex === -1
+            ? null
+            : (results[selectedIndex] as PromiseFulfilledResult<{ response: GeminiResult }>).value.response;
+        dispatch({
+          type: 'appendMessage',
+          payload: {
+            ...toAssistantMessage(selected ?? { text: '', parts: [], imageData: null }, retryCtx),
+            finishInfo: selected?.finishInfo,
+            groundingMetadata: selected?.groundingMetadata,
+            generationParams: variants[selectedIndex]?.generationParams,
+            usage: usage.length > 0 ? usage : undefined,
+            variants,
+            selectedVariant: selectedIndex === -1 ? undefined : selectedIndex,
+            isComparison: isComparison || undefined,
+            source,
+          },
+        });
+        if (selected) {
+          dispatch({ type: 'setHistory', payload: selected.history });
+          if (selected.imageData) {
+            dispatch({ type: 'setLastImage', payload: selected.imageData });
+          }
+        }
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+        dispatch({ type: 'setBatchProgress', payload: null });
+        dispatch({ type: 'setRequestNotice', payload: null });
+        dispatch({ type: 'setLoading', payload: false });
+      }
+    },
+    []
+  );
+
+  // 按重试上下文决定：对比 / 批量变体 / 单次请求
+  const dispatchRequest = useCallback(
+    async (requestKind: ChatRequestKind, requestContext: RequestContext, retryCtx: RetryContext) => {
+      if (retryCtx.compareTargetIds?.length) {
+        const targets = resolveCompareTargets(retryCtx.compareTargetIds);
+        if (targets.length === 0) {
+          dispatch({ type: 'appendMessage', payload: toSystemMessage('对比目标已被删除，请重新配置后再试', true, retryCtx) });
+          dispatch({ type: 'setLoading', payload: false });
+          return;
+        }
+        await runBatch(
+          requestKind,
+          requestContext,
+          retryCtx,
+          targets.map((target) => ({ target, label: toTargetLabel(target) }))
+        );
+        return;
+      }
+      if (retryCtx.variations && retryCtx.variations > 1) {
+        await runBatch(requestKind, requestContext, retryCtx, Array.from({ length: retryCtx.variations }, () => ({})));
+        return;
+      }
+      await runRequest(requestKind, requestContext, retryCtx);
+    },
+    [runBatch, runRequest]
+  );
+
+  const cancelRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const sendPrompt = useCallback(
     async (mode: ChatMode = 'generate') => {
       // 防止重复提交
       if (isSubmittingRef.current || state.loading) return;
       isSubmittingRef.current = true;
 
+      const compareTargets = state.compareMode ? apiConfig.getCompareTargets() : [];
+      if (state.compareMode && compareTargets.length < MIN_COMPARE_TARGETS) {
+        dispatch({
+          type: 'appendMessage',
+          payload: toSystemMessage(`对比模式至少需要配置 ${MIN_COMPARE_TARGETS} 个目标，请先在「对比目标」中添加`, true),
+        });
+        isSubmittingRef.current = false;
+        return;
+      }
+
       const apiType = apiConfig.getType();
-      if (apiType === 'openai') {
-        if (mode === 'edit' || mode === 'search') {
-          dispatch({
-            type: 'appendMessage',
-            payload: toSystemMessage('OpenAI 兼容模式不支持此功能', true),
-          });
-          isSubmittingRef.current = false;
-          return;
-        }
+      // 对比模式下由各目标单独判断是否支持
+      if (!state.compareMode && isUnsupportedMode(mode, apiType)) {
+        dispatch({
+          type: 'appendMessage',
+          payload: toSystemMessage(`${API_TYPE_LABELS[apiType]} 接口不支持此功能`, true),
+        });
+        isSubmittingRef.current = false;
+        return;
       }
 
       const trimmedPrompt = state.prompt.trim();
@@ -569,67 +1305,82 @@ export function useChatSession(): UseChatSessionResult {
       }
 
       const userText = buildUserLabel(mode, promptText);
-      const imageDataList: GeminiInlineDataInput[] = state.uploadedImages.map(({ base64, mimeType }) => ({
-        data: base64,
-        mimeType,
-      }));
+      const { imageDataList, maskData } = splitUploads(
+        state.uploadedImages,
+        supportsMask(apiType) && !state.compareMode
+      );
+      if (maskData && mode !== 'edit' && imageDataList.length === 0) {
+        dispatch({ type: 'appendMessage', payload: toSystemMessage('蒙版需要与待编辑的图片一起使用', true) });
+        isSubmittingRef.current = false;
+        return;
+      }
 
       // 保存重试上下文
       const retryCtx: RetryContext = {
         mode,
         prompt: trimmedPrompt,
         uploadDataUrls: state.uploadedImages.map((img) => img.dataUrl),
-        uploadItems: state.uploadedImages.map(({ base64, mimeType }) => ({ base64, mimeType })),
+        uploadItems: state.uploadedImages.map(({ base64, mimeType, isMask }) => ({ base64, mimeType, isMask })),
+        variations: !state.compareMode && state.variationCount > 1 ? state.variationCount : undefined,
+        compareTargetIds: state.compareMode ? compareTargets.map((target) => target.id) : undefined,
+        safetySettings: apiConfig.getSafetySettings(),
+        generationParams: state.generationParams,
       };
 
       const userMessage = toUserMessage(userText, state.uploadedImages.map((img) => img.dataUrl));
 
+      // 以首条提问作为会话标题（不含强制出图引导语）
+      if (!state.title && state.messages.length === 0 && trimmedPrompt) {
+        dispatch({ type: 'setTitle', payload: trimmedPrompt.split('\n')[0].slice(0, 40) });
+      }
+
       dispatch({ type: 'appendMessage', payload: userMessage });
       dispatch({ type: 'clearUploads' });
       dispatch({ type: 'setPrompt', payload: '' });
       dispatch({ type: 'setLoading', payload: true });
 
-      // OpenAI 兼容模式下使用安全的默认值，避免不支持的参数影响请求
-      const aspectRatio = apiType === 'openai' ? ('1:1' as AspectRatio) : state.aspectRatio;
-      const imageSize = apiType === 'openai' ? ('1K' as ImageSize) : state.imageSize;
+      // 不支持画幅与分辨率的接口使用安全的默认值，避免不支持的参数影响请求（对比模式按目标单独处理）
+      const useSafeDefaults = !supportsImageOptions(apiConfig.getCurrentTarget()) && !state.compareMode;
+      const aspectRatio = useSafeDefaults ? ('1:1' as AspectRatio) : state.aspectRatio;
+      const imageSize = useSafeDefaults ? ('1K' as ImageSize) : state.imageSize;
 
       const requestKind = resolveRequestKind(mode, imageDataList.length > 0);
       const requestContext: RequestContext = {
         promptText,
         labelledPrompt: userText,
         imageDataList,
+        maskData,
         history: state.history,
         aspectRatio,
         imageSize,
         lastImageData: state.lastImageData,
+        safetySettings: retryCtx.safetySettings,
+        systemInstruction: state.systemInstruction,
+        generationParams: retryCtx.generationParams,
       };
 
       try {
-        const response = await requestHandlers[requestKind](requestContext);
-        const assistantMessage = toAssistantMessage(response, retryCtx);
-
-        dispatch({ type: 'appendMessage', payload: assistantMessage });
-        dispatch({ type: 'setHistory', payload: response.history });
-        if (response.imageData) {
-          dispatch({ type: 'setLastImage', payload: response.imageData });
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : '未知错误';
-        dispatch({ type: 'appendMessage', payload: toSystemMessage(`错误：${message}`, true, retryCtx) });
+        await dispatchRequest(requestKind, requestContext, retryCtx);
       } finally {
-        dispatch({ type: 'setLoading', payload: false });
         isSubmittingRef.current = false;
       }
     },
     [
       state.loading,
+      state.title,
+      state.messages.length,
       state.prompt,
       state.uploadedImages,
       state.history,
       state.aspectRatio,
       state.imageSize,
       state.forceImageGuidance,
+      state.systemInstruction,
+      state.generationParams,
+      state.variationCount,
+      state.compareMode,
       state.lastImageData,
+      dispatchRequest,
     ]
   );
 
@@ -640,15 +1391,13 @@ export function useChatSession(): UseChatSessionResult {
       isSubmittingRef.current = true;
 
       const apiType = apiConfig.getType();
-      if (apiType === 'openai') {
-        if (ctx.mode === 'edit' || ctx.mode === 'search') {
-          dispatch({
-            type: 'appendMessage',
-            payload: toSystemMessage('OpenAI 兼容模式不支持此功能', true),
-          });
-          isSubmittingRef.current = false;
-          return;
-        }
+      if (!ctx.compareTargetIds?.length && isUnsupportedMode(ctx.mode, apiType)) {
+        dispatch({
+          type: 'appendMessage',
+          payload: toSystemMessage(`${API_TYPE_LABELS[apiType]} 接口不支持此功能`, true),
+        });
+        isSubmittingRef.current = false;
+        return;
       }
 
       // 删除旧的错误消息
@@ -656,10 +1405,10 @@ export function useChatSession(): UseChatSessionResult {
 
       const promptText = state.forceImageGuidance ? applyForceImageGuidance(ctx.prompt) : ctx.prompt;
       const userText = buildUserLabel(ctx.mode, promptText);
-      const imageDataList: GeminiInlineDataInput[] = ctx.uploadItems.map(({ base64, mimeType }) => ({
-        data: base64,
-        mimeType,
-      }));
+      const { imageDataList, maskData } = splitUploads(
+        ctx.uploadItems,
+        supportsMask(apiType) && !ctx.compareTargetIds?.length
+      );
 
       // 保存新的重试上下文
       const retryCtx: RetryContext = {
@@ -667,38 +1416,38 @@ export function useChatSession(): UseChatSessionResult {
         prompt: ctx.prompt,
         uploadDataUrls: ctx.uploadDataUrls,
         uploadItems: ctx.uploadItems,
+        variations: ctx.variations,
+        compareTargetIds: ctx.compareTargetIds,
+        // 旧记录没有保存安全设置时使用当前设置
+        safetySettings: ctx.safetySettings ?? apiConfig.getSafetySettings(),
+        // 重新生成沿用当时的采样参数（含种子），旧记录使用当前参数
+        generationParams: ctx.generationParams ?? state.generationParams,
       };
 
       dispatch({ type: 'setLoading', payload: true });
 
-      const aspectRatio = apiType === 'openai' ? ('1:1' as AspectRatio) : state.aspectRatio;
-      const imageSize = apiType === 'openai' ? ('1K' as ImageSize) : state.imageSize;
+      const useSafeDefaults = !supportsImageOptions(apiConfig.getCurrentTarget()) && !ctx.compareTargetIds?.length;
+      const aspectRatio = useSafeDefaults ? ('1:1' as AspectRatio) : state.aspectRatio;
+      const imageSize = useSafeDefaults ? ('1K' as ImageSize) : state.imageSize;
 
       const requestKind = resolveRequestKind(ctx.mode, imageDataList.length > 0);
       const requestContext: RequestContext = {
         promptText,
         labelledPrompt: userText,
         imageDataList,
+        maskData,
         history: state.history,
         aspectRatio,
         imageSize,
         lastImageData: state.lastImageData,
+        safetySettings: retryCtx.safetySettings,
+        systemInstruction: state.systemInstruction,
+        generationParams: retryCtx.generationParams,
       };
 
       try {
-        const response = await requestHandlers[requestKind](requestContext);
-        const assistantMessage = toAssistantMessage(response, retryCtx);
-
-        dispatch({ type: 'appendMessage', payload: assistantMessage });
-        dispatch({ type: 'setHistory', payload: response.history });
-        if (response.imageData) {
-          dispatch({ type: 'setLastImage', payload: response.imageData });
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : '未知错误';
-        dispatch({ type: 'appendMessage', payload: toSystemMessage(`错误：${message}`, true, retryCtx) });
+        await dispatchRequest(requestKind, requestContext, retryCtx);
       } finally {
-        dispatch({ type: 'setLoading', payload: false });
         isSubmittingRef.current = false;
       }
     },
@@ -708,7 +1457,10 @@ export function useChatSession(): UseChatSessionResult {
       state.aspectRatio,
       state.imageSize,
       state.forceImageGuidance,
+      state.systemInstruction,
+      state.generationParams,
       state.lastImageData,
+      dispatchRequest,
     ]
   );
 
@@ -722,27 +1474,41 @@ export function useChatSession(): UseChatSessionResult {
         writeForceImageGuidance(value);
         dispatch({ type: 'setForceImageGuidance', payload: value });
       },
+      setSystemInstruction: (value: string) => dispatch({ type: 'setSystemInstruction', payload: value }),
+      setGenerationParams: (value: GeminiSamplingParams) =>
+        dispatch({ type: 'setGenerationParams', payload: normalizeGenerationParams(value) }),
+      setCompareMode: (value: boolean) => dispatch({ type: 'setCompareMode', payload: value }),
+      setVariationCount: (value: number) =>
+        dispatch({ type: 'setVariationCount', payload: Math.min(MAX_VARIATIONS, Math.max(1, Math.round(value))) }),
+      selectVariant: (messageId: string, index: number) => {
+        if (state.loading) return;
+        dispatch({ type: 'selectVariant', payload: { messageId, index } });
+      },
       addUploads,
       removeUpload,
+      toggleUploadMask,
       deleteMessage: (id: string) => dispatch({ type: 'deleteMessage', payload: id }),
-      restoreSavedConversation: () => {
-        const saved = readPersistedChat();
-        if (!saved) {
+      restoreSavedConversation: async () => {
+        const latest = findLatestOtherConversation(state.conversations, state.sessionId);
+        if (!latest) {
           dispatch({ type: 'appendMessage', payload: toSystemMessage('没有找到可加载的历史对话', true) });
           return;
         }
-        writeForceImageGuidance(saved.payload.forceImageGuidance);
-        dispatch({ type: 'restoreSavedConversation', payload: { savedAt: saved.savedAt, payload: saved.payload } });
+        await switchConversation(latest.id);
       },
       clearSavedConversation: () => {
-        clearPersistedChat();
-        dispatch({
-          type: 'setSavedConversationMeta',
-          payload: { hasSavedConversation: false, savedConversationAt: null },
-        });
+        const latest = findLatestOtherConversation(state.conversations, state.sessionId);
+        if (latest) deleteConversation(latest.id);
       },
+      switchConversation,
+      renameConversation,
+      togglePinConversation,
+      deleteConversation,
+      exportConversation,
+      importConversation,
       sendPrompt,
       retryRequest,
+      cancelRequest,
       reset,
       downloadImage,
     },
@@ -0,0 +1,115 @@
+import { isAllowedProxyTargetUrl } from '@/config/proxyAllowlist';
+import type { ApiTarget } from '../utils/apiConfig';
+import { classifyError, ERROR_CODES } from './errors';
+import { buildModelListRequest } from './modelCatalog';
+import { requestWithMode } from './request';
+
+/**
+ * 连接测试：用一次带鉴权的模型列表请求（不消耗生成额度）检查 URL、Key 与请求方式是否可用
+ */
+
+const CONNECTION_TEST_TIMEOUT_MS = 15 * 1000;
+
+export type ConnectionTestResult = {
+  ok: boolean;
+  message: string;
+  hint?: string;
+  status?: number;
+  latencyMs?: number;
+  /**
+   * 客户端直连时 fetch 直接失败：浏览器不暴露具体原因，绝大多数是跨域（CORS）拦截
+   */
+  corsBlocked?: boolean;
+  /**
+   * 服务端转发时 URL 是否在白名单中；客户端直连时不适用
+   */
+  proxyAllowed?: boolean;
+};
+
+const getErrorBody = (body: unknown): { message?: string; code?: string } => {
+  if (!body || typeof body !== 'object' || !('error' in body)) return {};
+  const error = (body as { error?: { message?: string; status?: string; code?: string } | string }).error;
+  if (typeof error === 'string') return { message: error };
+  return { message: error?.message, code: error?.status || error?.code };
+};
+
+/**
+ * 不会抛出异常，失败原因记录在返回结果中
+ */
+export const testConnection = async (target: ApiTarget): Promise<ConnectionTestResult> => {
+  const url = target.url.trim();
+  const context = { requestMode: target.requestMode, url };
+  if (!url || !target.key.trim()) {
+    return { ok: false, message: '请先填写 API URL 和 API Key' };
+  }
+
+  const proxyAllowed = target.requestMode === 'server' ? isAllowedProxyTargetUrl(url) : undefined;
+  // 不在白名单时服务端必然拒绝，无需发出请求
+  if (proxyAllowed === false) {
+    return {
+      ok: false,
+      message: '当前 URL 不在服务端转发白名单中',
+      hint: classifyError({ code: ERROR_CODES.proxyNotAllowed }, context).hint,
+      proxyAllowed,
+    };
+  }
+
+  const startedAt = performance.now();
+  const elapsed = () => Math.round(performance.now() - startedAt);
+
+  let response: Response;
+  try {
+    response = await requestWithMode({
+      ...buildModelListRequest({ ...target, url }, 'pageSize=1'),
+      method: 'GET',
+      timeoutMs: CONNECTION_TEST_TIMEOUT_MS,
+      requestMode: target.requestMode,
+    });
+  } catch (error) {
+    const latencyMs = elapsed();
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'AbortError') {
+      return {
+        ok: false,
+        message: `请求超时（${CONNECTION_TEST_TIMEOUT_MS / 1000} 秒内无响应）`,
+        hint: classifyError({ code: ERROR_CODES.timeout }, context).hint,
+        latencyMs,
+        proxyAllowed,
+      };
+    }
+    const corsBlocked = target.requestMode === 'client';
+    return {
+      ok: false,
+      message: corsBlocked ? '请求被浏览器拦截（疑似 CORS 限制）或无法连接' : '无法连接到本站转发服务',
+      hint: classifyError({ code: ERROR_CODES.network }, context).hint,
+      latencyMs,
+      corsBlocked,
+      proxyAllowed,
+    };
+  }
+
+  const latencyMs = elapsed();
+  if (response.ok) {
+    await response.body?.cancel().catch(() => undefined);
+    return { ok: true, message: '连接成功，API Key 有效', status: response.status, latencyMs, corsBlocked: false, proxyAllowed };
+  }
+
+  const text = await response.text().catch(() => '');
+  let parsed: unknown = text;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // 非 JSON 响应体按原文展示
+  }
+  const { message, code } = getErrorBody(parsed);
+  const info = classifyError({ status: response.status, code }, context);
+  return {
+    ok: false,
+    message: message || (typeof parsed === 'string' && parsed.trim().slice(0, 200)) || `HTTP ${response.status}`,
+    // 模型列表请求不带生成参数，400 基本是 Key 无效（Gemini 对无效 Key 返回 INVALID_ARGUMENT）
+    hint: info.kind === 'invalid-argument' ? classifyError({ status: 401 }, context).hint : info.hint,
+    status: response.status,
+    latencyMs,
+    corsBlocked: false,
+    proxyAllowed,
+  };
+};
@@ -0,0 +1,141 @@
+import { isAllowedProxyTargetUrl } from '@/config/proxyAllowlist';
+import type { ChatErrorAction, ChatErrorInfo, ChatErrorKind } from '../types';
+import type { RequestMode } from '../utils/apiConfig';
+
+/**
+ * 错误分类：根据状态码、错误 code 与 finishReason 把客户端错误归为几类，
+ * 并给出可执行的处理建议（打开设置 / 改用服务端转发 / 降低分辨率）。
+ */
+
+// 请求层 / 服务端转发自定义的错误 code
+export const ERROR_CODES = {
+  notConfigured: 'NOT_CONFIGURED',
+  timeout: 'TIMEOUT',
+  network: 'NETWORK_ERROR',
+  proxyNotAllowed: 'PROXY_TARGET_NOT_ALLOWED',
+  proxyTimeout: 'PROXY_TIMEOUT',
+  proxyNetwork: 'PROXY_NETWORK_ERROR',
+} as const;
+
+export const ERROR_KIND_LABELS: Record<ChatErrorKind, string> = {
+  auth: '鉴权失败',
+  quota: '额度或频率受限',
+  safety: '内容被拦截',
+  'invalid-argument': '参数无效',
+  timeout: '请求超时',
+  network: '网络错误',
+  'proxy-not-allowlisted': '域名未在转发白名单',
+  cors: '跨域限制',
+  server: '服务端错误',
+  unknown: '请求失败',
+};
+
+export const ERROR_ACTION_LABELS: Record<ChatErrorAction, string> = {
+  'open-settings': '打开设置',
+  'switch-to-server': '改用服务端转发',
+  'reduce-image-size': '降低分辨率',
+};
+
+const SAFETY_REASONS = new Set([
+  'SAFETY',
+  'IMAGE_SAFETY',
+  'PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+  'RECITATION',
+  'CONTENT_FILTER',
+]);
+const QUOTA_CODES = new Set(['RESOURCE_EXHAUSTED', 'INSUFFICIENT_QUOTA', 'RATE_LIMIT_EXCEEDED']);
+const AUTH_CODES = new Set(['UNAUTHENTICATED', 'PERMISSION_DENIED', 'INVALID_API_KEY', ERROR_CODES.notConfigured]);
+const INVALID_ARGUMENT_CODES = new Set(['INVALID_ARGUMENT', 'FAILED_PRECONDITION', 'INVALID_REQUEST_ERROR']);
+
+type ErrorLike = {
+  status?: number;
+  code?: string;
+  details?: unknown;
+};
+
+type ClassifyContext = {
+  requestMode: RequestMode;
+  url: string;
+};
+
+const toErrorLike = (error: unknown): ErrorLike => (error && typeof error === 'object' ? (error as ErrorLike) : {});
+
+/**
+ * 从错误详情中取出 finishReason / blockReason（Gemini 与 OpenAI 格式）
+ */
+const getFinishReason = (details: unknown): string | undefined => {
+  if (!details || typeof details !== 'object') return undefined;
+  const body = details as {
+    promptFeedback?: { blockReason?: string };
+    candidates?: Array<{ finishReason?: string }>;
+    choices?: Array<{ finish_reason?: string }>;
+  };
+  return body.promptFeedback?.blockReason || body.candidates?.[0]?.finishReason || body.choices?.[0]?.finish_reason;
+};
+
+const resolveKind = ({ status, code, details }: ErrorLike, { requestMode }: ClassifyContext): ChatErrorKind => {
+  const normalizedCode = String(code || '').toUpperCase();
+  const finishReason = String(getFinishReason(details) || '').toUpperCase();
+
+  if (normalizedCode === ERROR_CODES.proxyNotAllowed) return 'proxy-not-allowlisted';
+  if (SAFETY_REASONS.has(normalizedCode) || SAFETY_REASONS.has(finishReason)) return 'safety';
+  if (status === 429 || QUOTA_CODES.has(normalizedCode)) return 'quota';
+  if (status === 401 || status === 403 || AUTH_CODES.has(normalizedCode)) return 'auth';
+  if (status === 504 || normalizedCode === ERROR_CODES.timeout || normalizedCode === ERROR_CODES.proxyTimeout) {
+    return 'timeout';
+  }
+  if (normalizedCode === ERROR_CODES.proxyNetwork) return 'network';
+  if (status === 400 || status === 413 || status === 422 || INVALID_ARGUMENT_CODES.has(normalizedCode)) {
+    return 'invalid-argument';
+  }
+  if (status != null && status >= 500) return 'server';
+  // 浏览器直连时 fetch 直接失败，绝大多数是跨域（CORS）拦截
+  if (normalizedCode === ERROR_CODES.network) return requestMode === 'client' ? 'cors' : 'network';
+  return 'unknown';
+};
+
+const HINTS: Record<ChatErrorKind, string> = {
+  auth: 'API Key 无效、未配置或无权访问该模型，请在设置中检查 URL、Key 与模型。',
+  quota: '请求过于频繁或额度已用尽，请稍后再试，或切换到其他配置。',
+  safety: '内容被安全策略拦截，请调整提示词或参考图后重试。',
+  'invalid-argument': '服务商不接受本次请求参数，请确认模型支持当前画幅与分辨率，或减少 / 压缩参考图。',
+  timeout: '生成耗时过长，可降低分辨率后重试。',
+  network: '无法连接到 API 服务，请检查网络与 API URL。',
+  'proxy-not-allowlisted': '服务端转发只允许 proxy.allowlist.json 中的域名，请改用客户端直连，或联系部署者添加该域名。',
+  cors: '浏览器直连可能被跨域（CORS）限制拦截，可改用服务端转发。',
+  server: '服务商暂时不可用，请稍后重试，或在设置中配置故障转移。',
+  unknown: '',
+};
+
+const resolveActions = (kind: ChatErrorKind, { requestMode, url }: ClassifyContext): ChatErrorAction[] => {
+  switch (kind) {
+    case 'auth':
+    case 'quota':
+    case 'network':
+    case 'proxy-not-allowlisted':
+      return ['open-settings'];
+    case 'invalid-argument':
+    case 'timeout':
+      return ['reduce-image-size'];
+    case 'cors':
+      // 只有白名单内的域名才能改用服务端转发
+      return requestMode === 'client' && isAllowedProxyTargetUrl(url)
+        ? ['switch-to-server', 'open-settings']
+        : ['open-settings'];
+    default:
+      return [];
+  }
+};
+
+export const classifyError = (error: unknown, context: ClassifyContext): ChatErrorInfo => {
+  const errorLike = toErrorLike(error);
+  const kind = resolveKind(errorLike, context);
+  return {
+    kind,
+    status: errorLike.status,
+    hint: HINTS[kind] || undefined,
+    actions: resolveActions(kind, context),
+  };
+};
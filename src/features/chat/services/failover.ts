@@ -0,0 +1,61 @@
+import type { ApiProfile } from '../utils/apiConfig';
+import { ERROR_CODES } from './errors';
+
+export type FailoverAttempt = {
+  profile: ApiProfile;
+  error: unknown;
+};
+
+type FailoverOptions = {
+  signal?: AbortSignal;
+  /**
+   * 某个配置失败、即将切换到下一个时回调
+   */
+  onFailover?: (failed: FailoverAttempt, next: ApiProfile) => void;
+};
+
+const getErrorStatus = (error: unknown): number | undefined =>
+  error && typeof error === 'object' && 'status' in error && typeof error.status === 'number'
+    ? error.status
+    : undefined;
+
+const NETWORK_ERROR_CODES: ReadonlySet<unknown> = new Set([ERROR_CODES.network, ERROR_CODES.timeout]);
+
+/**
+ * 是否值得换一个服务商重试：5xx（含转发返回的 502/504）以及浏览器直连时的网络错误 / 超时。
+ * 4xx 与内容拦截通常是请求本身的问题，换服务商也无济于事；用户主动取消不重试。
+ */
+export const isFailoverEligible = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false;
+
+  const status = getErrorStatus(error);
+  if (status != null) return status >= 500;
+  return 'code' in error && NETWORK_ERROR_CODES.has(error.code);
+};
+
+/**
+ * 按顺序在多个配置上执行同一请求，直到成功或遇到不可切换的错误
+ */
+export const runWithFailover = async <T>(
+  profiles: ApiProfile[],
+  run: (profile: ApiProfile) => Promise<T>,
+  { signal, onFailover }: FailoverOptions = {}
+): Promise<{ result: T; profile: ApiProfile; failedAttempts: FailoverAttempt[] }> => {
+  const failedAttempts: FailoverAttempt[] = [];
+
+  for (let i = 0; i < profiles.length; i += 1) {
+    const profile = profiles[i];
+    try {
+      return { result: await run(profile), profile, failedAttempts };
+    } catch (error) {
+      const next = profiles[i + 1];
+      if (!next || signal?.aborted || !isFailoverEligible(error)) throw error;
+
+      const attempt = { profile, error };
+      failedAttempts.push(attempt);
+      onFailover?.(attempt, next);
+    }
+  }
+
+  throw new Error('没有可用的配置');
+};
@@ -1,17 +1,33 @@
-import { apiConfig } from '../utils/apiConfig';
-import { DEFAULT_REQUEST_TIMEOUT_MS, requestWithMode } from './request';
+import { apiConfig, type ApiTarget } from '../utils/apiConfig';
+import { DEFAULT_REQUEST_TIMEOUT_MS, requestWithRetry } from './request';
+import { ERROR_CODES } from './errors';
+import type { RetryStatus } from './retry';
+import { readSseData } from './sse';
 
 import type {
+  GeminiCandidate,
   GeminiContentPart,
+  GeminiFinishInfo,
+  GeminiGroundingMetadata,
   GeminiInlineData,
   GeminiInlineDataInput,
   GeminiMessage,
   GeminiRequestPayload,
   GeminiResponse,
   GeminiResult,
+  GeminiResultCandidate,
+  GeminiResultPart,
+  GeminiSafetySetting,
+  GeminiSamplingParams,
+  GeminiStreamUpdate,
+  GeminiTokenUsage,
+  GeminiUsageMetadata,
 } from '@/types/gemini';
 
 const buildModelPath = (model: string): string => `/v1beta/models/${model}:generateContent`;
+const buildStreamModelPath = (model: string): string => `/v1beta/models/${model}:streamGenerateContent?alt=sse`;
+
+export const GEMINI_CANCELLED_CODE = 'CANCELLED';
 
 export class GeminiClientError extends Error {
   status?: number;
@@ -36,40 +52,95 @@ type GeminiCallParams = {
   aspectRatio?: string;
   imageSize?: string;
   useSearch?: boolean;
+  /**
+   * 各危害类别的拦截阈值，默认使用设置中的安全设置
+   */
+  safetySettings?: GeminiSafetySetting[];
+  /**
+   * 系统指令（人设），以 systemInstruction 发送
+   */
+  systemInstruction?: string;
+  /**
+   * 是否请求返回思考过程（thinkingConfig.includeThoughts），默认使用设置
+   */
+  includeThoughts?: boolean;
+  /**
+   * 温度、Top P / Top K、种子、候选数等采样参数，并入 generationConfig
+   */
+  generationParams?: GeminiSamplingParams;
+  /**
+   * 流式响应时每收到一段内容回调一次；未开启流式响应时不会触发
+   */
+  onProgress?: (update: GeminiStreamUpdate) => void;
+  /**
+   * 遇到 429 / 5xx 准备自动重试时回调
+   */
+  onRetry?: (status: RetryStatus) => void;
+  /**
+   * 用户主动取消生成时触发
+   */
+  signal?: AbortSignal;
+  /**
+   * 指定请求目标（URL / Key / 模型 / 请求方式），默认使用当前设置
+   */
+  target?: ApiTarget;
 };
 
 const normalizeBaseUrl = (url: string) => url.replace(/\/$/, '');
 
-const getModelPath = (): string => {
-  const model = apiConfig.getGeminiModel().trim();
-  return buildModelPath(model || 'gemini-3-pro-image-preview');
+const getModelPath = (modelName: string, stream = false): string => {
+  const model = modelName.trim() || 'gemini-3-pro-image-preview';
+  return stream ? buildStreamModelPath(model) : buildModelPath(model);
 };
 
+const getInlineData = (part?: GeminiContentPart): GeminiInlineData | undefined =>
+  part?.inline_data || part?.inlineData;
+
+const getThoughtSignature = (part: GeminiContentPart): string | undefined =>
+  part.thoughtSignature || part.thought_signature;
+
+/**
+ * 整理请求上下文：去掉思考内容，模型输出的片段保留 thoughtSignature 原样回传。
+ * 模型图片只有带签名时才保留——旧记录或其他来源（如 OpenAI 兼容格式）的图片没有签名，
+ * 放回去会被需要校验签名的模型拒绝。
+ */
 const cloneHistory = (history: GeminiMessage[] = []): GeminiMessage[] =>
   history
     .map((message) => ({
       role: message.role,
       parts: message.parts
         .filter((part) => {
-          // 过滤掉所有 thought 内容
           if (part.thought) return false;
-          // 对于模型消息，过滤掉所有图片（避免 thought_signature 问题）
-          if (message.role === 'model') {
-            const hasImage = part.inline_data || part.inlineData;
-            if (hasImage) return false;
+          if (message.role === 'model' && getInlineData(part)) {
+            return Boolean(getThoughtSignature(part));
           }
           return true;
         })
         .map((part) => {
-          const inlineData = part.inline_data || part.inlineData;
+          const inlineData = getInlineData(part);
+          const thoughtSignature = message.role === 'model' ? getThoughtSignature(part) : undefined;
           return {
             ...(part.text ? { text: part.text } : {}),
             ...(inlineData ? { inline_data: inlineData } : {}),
+            ...(thoughtSignature ? { thoughtSignature } : {}),
           };
-        }),
+        })
+        // 只有签名的空文本片段也要保留，否则签名会丢失
+        .filter((part) => part.text || part.inline_data || part.thoughtSignature),
     }))
     .filter((message) => message.parts.length > 0);
 
+/**
+ * 待编辑的图片就是最近一条模型消息中带签名的图片时，cloneHistory 已经把它连同签名放回上下文，
+ * 不需要再作为用户图片重复上传
+ */
+const isLatestSignedImage = (history: GeminiMessage[], data: string): boolean => {
+  const lastModelMessage = [...history].reverse().find((message) => message.role === 'model');
+  return Boolean(
+    lastModelMessage?.parts.some((part) => !part.thought && getInlineData(part)?.data === data && getThoughtSignature(part))
+  );
+};
+
 const buildUserMessage = (prompt: string, images: GeminiInlineDataInput[] = []): GeminiMessage => {
   const parts: GeminiContentPart[] = [{ text: prompt }];
   images.forEach(({ data, mimeType }) => {
@@ -84,13 +155,10 @@ const buildUserMessage = (prompt: string, images: GeminiInlineDataInput[] = []):
   return { role: 'user', parts };
 };
 
-const getInlineData = (part?: GeminiContentPart): GeminiInlineData | undefined =>
-  part?.inline_data || part?.inlineData;
-
 const extractText = (response: GeminiResponse): string => {
   const parts = response.candidates?.[0]?.content?.parts || [];
   const textSegments = parts
-    .filter((part) => typeof part.text === 'string')
+    .filter((part) => typeof part.text === 'string' && !part.thought)
     .map((part) => part.text as string);
 
   return textSegments.length > 0 ? textSegments.join('\n\n') : '';
@@ -98,8 +166,9 @@ const extractText = (response: GeminiResponse): string => {
 
 const extractImageData = (response: GeminiResponse): string | null => {
   const parts = response.candidates?.[0]?.content?.parts || [];
-  for (const part of parts) {
-    const inlineData = getInlineData(part);
+  for (let i = parts.length - 1; i >= 0; i -= 1) {
+    if (parts[i].thought) continue; // 思考过程中的草图不作为最终结果
+    const inlineData = getInlineData(parts[i]);
     if (inlineData?.data) {
       return inlineData.data;
     }
@@ -107,29 +176,117 @@ const extractImageData = (response: GeminiResponse): string | null => {
   return null;
 };
 
+/**
+ * parts 写入 history（不含思考过程，保留 thoughtSignature）；resultParts 用于展示，思考片段带 thought 标记
+ */
 const buildAssistantMessageParts = (
   response: GeminiResponse
-): { parts: GeminiContentPart[]; textParts: Array<{ text: string }> } => {
+): { parts: GeminiContentPart[]; resultParts: GeminiResultPart[] } => {
   const parts: GeminiContentPart[] = [];
-  const textParts: Array<{ text: string }> = [];
+  const resultParts: GeminiResultPart[] = [];
 
   const candidateParts = response.candidates?.[0]?.content?.parts || [];
   candidateParts.forEach((part) => {
-    if (part.thought) return; // 跳过思考过程内容
-
-    if (part.text) {
-      const textPart = { text: part.text };
-      parts.push(textPart);
-      textParts.push(textPart);
+    if (part.thought) {
+      const inlineData = getInlineData(part);
+      if (part.text) {
+        resultParts.push({ text: part.text, thought: true });
+      } else if (inlineData?.data) {
+        resultParts.push({ image: { data: inlineData.data, mimeType: inlineData.mime_type || 'image/png' }, thought: true });
+      }
       return;
     }
+
+    const thoughtSignature = getThoughtSignature(part);
+    const signature = thoughtSignature ? { thoughtSignature } : {};
     const inlineData = getInlineData(part);
-    if (inlineData) {
-      parts.push({ inline_data: inlineData });
+    if (inlineData?.data) {
+      parts.push({ inline_data: inlineData, ...signature });
+      resultParts.push({ image: { data: inlineData.data, mimeType: inlineData.mime_type || 'image/png' }, ...signature });
+      return;
+    }
+    // 流式响应的签名可能单独出现在最后一个空文本片段上
+    if (part.text || thoughtSignature) {
+      parts.push({ text: part.text || '', ...signature });
+      resultParts.push({ text: part.text || '', ...signature });
     }
   });
 
-  return { parts, textParts };
+  return { parts, resultParts };
+};
+
+const NORMAL_FINISH_REASONS = new Set(['STOP', 'FINISH_REASON_UNSPECIFIED', 'BLOCK_REASON_UNSPECIFIED']);
+
+/**
+ * 提示词被拦截（promptFeedback.blockReason）或候选非正常结束（finishReason）时的说明
+ */
+const extractFinishInfo = (response: GeminiResponse, hasContent: boolean): GeminiFinishInfo | undefined => {
+  const candidate = response.candidates?.[0];
+  const blockReason = response.promptFeedback?.blockReason;
+  const reason = blockReason && !NORMAL_FINISH_REASONS.has(blockReason) ? blockReason : candidate?.finishReason;
+  if (!reason || NORMAL_FINISH_REASONS.has(reason)) return undefined;
+
+  const safetyRatings = [...(response.promptFeedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])];
+  return {
+    reason,
+    blocked: reason === blockReason || !hasContent,
+    message: response.promptFeedback?.blockReasonMessage || candidate?.finishMessage,
+    safetyRatings: safetyRatings.length > 0 ? safetyRatings : undefined,
+  };
+};
+
+const toTokenUsage = (metadata?: GeminiUsageMetadata): GeminiTokenUsage | undefined => {
+  if (!metadata) return undefined;
+  const promptTokens = metadata.promptTokenCount || 0;
+  const outputTokens = metadata.candidatesTokenCount || 0;
+  const thoughtTokens = metadata.thoughtsTokenCount || 0;
+  const imageTokens = (metadata.candidatesTokensDetails || [])
+    .filter((detail) => detail.modality === 'IMAGE')
+    .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0);
+  return {
+    promptTokens,
+    outputTokens,
+    thoughtTokens,
+    imageTokens,
+    totalTokens: metadata.totalTokenCount || promptTokens + outputTokens + thoughtTokens,
+  };
+};
+
+const extractThinkingImages = (response: GeminiResponse): string[] =>
+  (response.candidates?.[0]?.content?.parts || [])
+    .filter((part) => part.thought)
+    .map((part) => getInlineData(part)?.data)
+    .filter((data): data is string => !!data);
+
+/**
+ * 搜索依据通常在候选上，兼容放在响应顶层的旧格式
+ */
+const extractGroundingMetadata = (response: GeminiResponse): GeminiGroundingMetadata | undefined => {
+  const metadata = response.candidates?.[0]?.groundingMetadata || response.groundingMetadata;
+  if (!metadata) return undefined;
+  const hasContent =
+    metadata.webSearchQueries?.length || metadata.groundingChunks?.length || metadata.searchEntryPoint?.renderedContent;
+  return hasContent ? metadata : undefined;
+};
+
+const toResultCandidate = (response: GeminiResponse): GeminiResultCandidate => {
+  const { parts, resultParts } = buildAssistantMessageParts(response);
+  return {
+    groundingMetadata: extractGroundingMetadata(response),
+    text: extractText(response),
+    parts: resultParts,
+    imageData: extractImageData(response),
+    finishInfo: extractFinishInfo(response, parts.some((part) => part.text || getInlineData(part))),
+  };
+};
+
+/**
+ * 多个候选时逐个转换（提示词级别的 promptFeedback 对每个候选都适用）
+ */
+const extractCandidates = (response: GeminiResponse): GeminiResultCandidate[] | undefined => {
+  const candidates = response.candidates || [];
+  if (candidates.length <= 1) return undefined;
+  return candidates.map((candidate) => toResultCandidate({ ...response, candidates: [candidate] }));
 };
 
 const toGeminiError = (status: number, body: unknown): GeminiClientError => {
@@ -169,28 +326,140 @@ const parseResponse = async (response: Response): Promise<GeminiResponse> => {
   return (parsed || {}) as GeminiResponse;
 };
 
-const requestGemini = async (payload: GeminiRequestPayload, apiKey: string, baseUrl: string): Promise<GeminiResponse> => {
+const appendStreamPart = (parts: GeminiContentPart[], part: GeminiContentPart) => {
+  const last = parts[parts.length - 1];
+  const canMergeText =
+    typeof part.text === 'string' &&
+    last &&
+    typeof last.text === 'string' &&
+    !getInlineData(last) &&
+    !getInlineData(part) &&
+    Boolean(last.thought) === Boolean(part.thought);
+
+  if (canMergeText) {
+    const thoughtSignature = getThoughtSignature(part) || getThoughtSignature(last);
+    parts[parts.length - 1] = {
+      ...last,
+      text: `${last.text}${part.text}`,
+      ...(thoughtSignature ? { thoughtSignature } : {}),
+    };
+    return;
+  }
+  parts.push({ ...part });
+};
+
+/**
+ * 读取 streamGenerateContent 的 SSE 响应，把分片合并为一个完整的 GeminiResponse；
+ * 每合并一段就通过 onChunk 回传当前的累计结果。
+ */
+const parseStreamResponse = async (
+  response: Response,
+  onChunk?: (merged: GeminiResponse) => void
+): Promise<GeminiResponse> => {
+  if (!response.ok) {
+    return parseResponse(response);
+  }
+
+  // candidateCount > 1 时各候选按 index 分别合并
+  const merged = new Map<number, { parts: GeminiContentPart[]; meta: Omit<GeminiCandidate, 'content'> }>();
+  let groundingMetadata: GeminiResponse['groundingMetadata'];
+  let promptFeedback: GeminiResponse['promptFeedback'];
+  let usageMetadata: GeminiUsageMetadata | undefined;
+
+  const toCandidates = (withMeta: boolean): GeminiCandidate[] =>
+    [...merged.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, { parts, meta }]) => ({
+        ...(withMeta ? meta : {}),
+        index,
+        content: { role: 'model', parts: [...parts] },
+      }));
+
+  for await (const data of readSseData(response)) {
+    let chunk: GeminiResponse & { error?: unknown };
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      continue;
+    }
+
+    if (chunk && typeof chunk === 'object' && 'error' in chunk) {
+      throw toGeminiError(response.status, chunk);
+    }
+
+    (chunk.candidates || []).forEach((candidate, position) => {
+      const index = candidate.index ?? position;
+      const entry = merged.get(index) || { parts: [], meta: {} };
+      merged.set(index, entry);
+
+      (candidate.content?.parts || []).forEach((part) => appendStreamPart(entry.parts, part));
+      entry.meta = {
+        finishReason: candidate.finishReason || entry.meta.finishReason,
+        finishMessage: candidate.finishMessage || entry.meta.finishMessage,
+        safetyRatings: candidate.safetyRatings || entry.meta.safetyRatings,
+        groundingMetadata: candidate.groundingMetadata || entry.meta.groundingMetadata,
+      };
+    });
+    if (chunk.groundingMetadata) {
+      groundingMetadata = chunk.groundingMetadata;
+    }
+    promptFeedback = chunk.promptFeedback || promptFeedback;
+    // 每个分片都带累计用量，以最后一次为准
+    usageMetadata = chunk.usageMetadata || usageMetadata;
+
+    onChunk?.({ candidates: toCandidates(false), groundingMetadata });
+  }
+
+  return { candidates: toCandidates(true), promptFeedback, groundingMetadata, usageMetadata };
+};
+
+const requestGemini = async (
+  payload: GeminiRequestPayload,
+  target: ApiTarget,
+  { onProgress, onRetry, signal }: Pick<GeminiCallParams, 'onProgress' | 'onRetry' | 'signal'> = {}
+): Promise<GeminiResponse> => {
+  const stream = apiConfig.getStreamResponse();
+
   try {
-    const response = await requestWithMode({
-      url: `${normalizeBaseUrl(baseUrl)}${getModelPath()}`,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': apiKey,
+    const response = await requestWithRetry(
+      {
+        url: `${normalizeBaseUrl(target.url)}${getModelPath(target.model, stream)}`,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': target.key,
+        },
+        body: payload,
+        timeoutMs: DEFAULT_REQUEST_TIMEOUT_MS,
+        stream,
+        signal,
+        requestMode: target.requestMode,
       },
-      body: payload,
-      timeoutMs: DEFAULT_REQUEST_TIMEOUT_MS,
-    });
+      { onRetry }
+    );
 
-    return parseResponse(response);
+    if (!stream) {
+      return await parseResponse(response);
+    }
+
+    return await parseStreamResponse(response, (merged) => {
+      onProgress?.({
+        text: extractText(merged),
+        parts: buildAssistantMessageParts(merged).resultParts,
+        imageData: extractImageData(merged),
+      });
+    });
   } catch (error) {
+    if (signal?.aborted) {
+      throw new GeminiClientError('已取消生成', { code: GEMINI_CANCELLED_CODE, details: error });
+    }
     if (error instanceof GeminiClientError) {
       throw error;
     }
     if (error && typeof error === 'object' && 'name' in error && error.name === 'AbortError') {
-      throw new GeminiClientError('请求超时（已等待 20 分钟）', { details: error });
+      throw new GeminiClientError('请求超时（已等待 20 分钟）', { code: ERROR_CODES.timeout, details: error });
     }
-    throw new GeminiClientError('网络请求失败', { details: error });
+    throw new GeminiClientError('网络请求失败', { code: ERROR_CODES.network, details: error });
   }
 };
 
@@ -201,12 +470,17 @@ const callGeminiApi = async ({
   aspectRatio = '1:1',
   imageSize = '2K',
   useSearch = false,
+  safetySettings = apiConfig.getSafetySettings(),
+  systemInstruction,
+  generationParams,
+  includeThoughts = apiConfig.getIncludeThoughts(),
+  onProgress,
+  onRetry,
+  signal,
+  target = apiConfig.getCurrentTarget(),
 }: GeminiCallParams): Promise<GeminiResult> => {
-  const baseUrl = apiConfig.getUrl();
-  const apiKey = apiConfig.getKey();
-
-  if (!baseUrl || !apiKey) {
-    throw new GeminiClientError('请先配置 API URL 和 Key');
+  if (!target.url || !target.key) {
+    throw new GeminiClientError('请先配置 API URL 和 Key', { code: ERROR_CODES.notConfigured });
   }
 
   const safeHistory = cloneHistory(history);
@@ -216,6 +490,7 @@ const callGeminiApi = async ({
   const payload: GeminiRequestPayload = {
     contents,
     generationConfig: {
+      ...generationParams,
       responseModalities: ['TEXT', 'IMAGE'],
       imageConfig: {
         aspectRatio,
@@ -224,82 +499,74 @@ const callGeminiApi = async ({
     },
   };
 
+  if (includeThoughts) {
+    payload.generationConfig.thinkingConfig = { includeThoughts: true };
+  }
+
+  if (systemInstruction?.trim()) {
+    payload.systemInstruction = { parts: [{ text: systemInstruction.trim() }] };
+  }
+
+  if (safetySettings.length > 0) {
+    payload.safetySettings = safetySettings;
+  }
+
   if (useSearch) {
     payload.tools = [{ google_search: {} }];
   }
 
-  const response = await requestGemini(payload, apiKey, baseUrl);
-  const { parts, textParts } = buildAssistantMessageParts(response);
+  const rawResponse = await requestGemini(payload, target, { onProgress, onRetry, signal });
+  // 候选按 index 排序，第一个候选作为主结果写入 history
+  const response: GeminiResponse = {
+    ...rawResponse,
+    candidates: rawResponse.candidates && [...rawResponse.candidates].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)),
+  };
+  const { parts } = buildAssistantMessageParts(response);
 
   const updatedHistory: GeminiMessage[] =
     parts.length > 0 ? [...contents, { role: 'model', parts }] : contents;
 
   return {
-    text: extractText(response),
-    parts: textParts,
-    imageData: extractImageData(response),
-    thinkingImages: [],
-    groundingMetadata: response.groundingMetadata,
+    ...toResultCandidate(response),
+    thinkingImages: extractThinkingImages(response),
+    candidates: extractCandidates(response),
+    usage: toTokenUsage(response.usageMetadata),
     history: updatedHistory,
   };
 };
 
 export const geminiClient = {
-  generateImage: ({
-    prompt,
-    aspectRatio,
-    imageSize,
-    history,
-  }: Omit<GeminiCallParams, 'images' | 'useSearch'>) =>
-    callGeminiApi({ prompt, aspectRatio, imageSize, history }),
+  generateImage: (params: Omit<GeminiCallParams, 'images' | 'useSearch'>) => callGeminiApi(params),
 
   editImage: ({
     imageData,
     editPrompt,
-    aspectRatio,
-    imageSize,
-    history,
+    ...options
   }: {
     imageData: string;
     editPrompt: string;
   } & Omit<GeminiCallParams, 'prompt' | 'images' | 'useSearch'>) =>
     callGeminiApi({
+      ...options,
       prompt: editPrompt,
-      images: [{ data: imageData, mimeType: 'image/png' }],
-      aspectRatio,
-      imageSize,
-      history,
+      images: isLatestSignedImage(options.history ?? [], imageData) ? [] : [{ data: imageData, mimeType: 'image/png' }],
     }),
 
   compositeImages: ({
-    prompt,
     imageDataList,
-    aspectRatio,
-    imageSize,
-    history,
+    ...options
   }: {
     prompt: string;
     imageDataList: GeminiInlineDataInput[];
   } & Omit<GeminiCallParams, 'images' | 'useSearch'>) =>
     callGeminiApi({
-      prompt,
+      ...options,
       images: imageDataList,
-      aspectRatio,
-      imageSize,
-      history,
     }),
 
-  generateWithSearch: ({
-    prompt,
-    aspectRatio,
-    imageSize,
-    history,
-  }: Omit<GeminiCallParams, 'images' | 'useSearch'>) =>
+  generateWithSearch: (params: Omit<GeminiCallParams, 'images' | 'useSearch'>) =>
     callGeminiApi({
-      prompt,
-      aspectRatio,
-      imageSize,
-      history,
+      ...params,
       useSearch: true,
     }),
 };
@@ -0,0 +1,150 @@
+import { isImageModelName, type ApiTarget } from '../utils/apiConfig';
+import { requestWithMode } from './request';
+import { ERROR_CODES } from './errors';
+
+/**
+ * 从服务商获取可用模型：Gemini 调用 GET /v1beta/models，只保留支持 generateContent 的模型；
+ * OpenAI 兼容格式与 Images API 调用 GET /v1/models。缓存完整列表，
+ * 展示时按模型名只保留图片模型（设置中可切换为显示全部，见 apiConfig.getModelOptions）
+ */
+
+const GEMINI_MODELS_PATH = '/v1beta/models';
+const OPENAI_MODELS_PATH = '/v1/models';
+const MODELS_REQUEST_TIMEOUT_MS = 30 * 1000;
+// Gemini 分页拉取的上限，防止接口异常时无限翻页
+const MAX_GEMINI_PAGES = 5;
+
+export class ModelCatalogError extends Error {
+  status?: number;
+  code?: string;
+  details?: unknown;
+
+  constructor(message: string, options: { status?: number; code?: string; details?: unknown } = {}) {
+    super(message);
+    this.name = 'ModelCatalogError';
+    this.status = options.status;
+    this.code = options.code;
+    this.details = options.details;
+  }
+}
+
+type GeminiModelListResponse = {
+  models?: Array<{
+    name?: string; // models/gemini-2.5-flash-image
+    supportedGenerationMethods?: string[];
+  }>;
+  nextPageToken?: string;
+};
+
+type OpenAIModelListResponse = {
+  data?: Array<{ id?: string }>;
+};
+
+const normalizeBaseUrl = (url: string) => url.replace(/\/$/, '');
+
+/**
+ * 模型列表接口的地址与鉴权头；query 只对 Gemini 生效（分页参数）
+ */
+export const buildModelListRequest = (target: ApiTarget, query = ''): { url: string; headers: Record<string, string> } =>
+  target.apiType !== 'gemini'
+    ? { url: `${normalizeBaseUrl(target.url)}${OPENAI_MODELS_PATH}`, headers: { Authorization: `Bearer ${target.key}` } }
+    : {
+        url: `${normalizeBaseUrl(target.url)}${GEMINI_MODELS_PATH}${query ? `?${query}` : ''}`,
+        headers: { 'x-goog-api-key': target.key },
+      };
+
+// 图片模型排在前面，显示全部模型时也便于查找
+const compareModels = (a: string, b: string): number =>
+  Number(!isImageModelName(a)) - Number(!isImageModelName(b)) || a.localeCompare(b);
+
+const toModelCatalogError = (status: number, body: unknown): ModelCatalogError => {
+  const payload =
+    body && typeof body === 'object' && 'error' in body
+      ? (body as { error?: { message?: string; status?: string; code?: string } }).error
+      : undefined;
+  const detail = payload?.message || (typeof body === 'string' ? body.trim().slice(0, 200) : '');
+  return new ModelCatalogError(`获取模型列表失败（HTTP ${status}）${detail ? `：${detail}` : ''}`, {
+    status,
+    code: payload?.status || payload?.code,
+    details: body,
+  });
+};
+
+const requestJson = async <T>(
+  { url, headers }: { url: string; headers: Record<string, string> },
+  target: ApiTarget,
+  signal?: AbortSignal
+) => {
+  let response: Response;
+  try {
+    response = await requestWithMode({
+      url,
+      method: 'GET',
+      headers,
+      timeoutMs: MODELS_REQUEST_TIMEOUT_MS,
+      signal,
+      requestMode: target.requestMode,
+    });
+  } catch (error) {
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'AbortError') {
+      throw new ModelCatalogError('获取模型列表超时', { code: ERROR_CODES.timeout, details: error });
+    }
+    throw new ModelCatalogError('获取模型列表失败：网络请求失败', { code: ERROR_CODES.network, details: error });
+  }
+
+  const text = await response.text();
+  let parsed: unknown = {};
+  if (text) {
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = text;
+    }
+  }
+  if (!response.ok) {
+    throw toModelCatalogError(response.status, parsed);
+  }
+  return (parsed && typeof parsed === 'object' ? parsed : {}) as T;
+};
+
+const fetchGeminiModels = async (target: ApiTarget, signal?: AbortSignal): Promise<string[]> => {
+  const models: string[] = [];
+  let pageToken = '';
+
+  for (let page = 0; page < MAX_GEMINI_PAGES; page += 1) {
+    const query = `pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+    const body = await requestJson<GeminiModelListResponse>(buildModelListRequest(target, query), target, signal);
+
+    (body.models || []).forEach((model) => {
+      const name = (model.name || '').replace(/^models\//, '');
+      // 本项目只调用 generateContent；predict 类模型（如 Imagen）无法使用
+      const methods = model.supportedGenerationMethods;
+      if (name && (!methods || methods.includes('generateContent'))) {
+        models.push(name);
+      }
+    });
+
+    if (!body.nextPageToken) break;
+    pageToken = body.nextPageToken;
+  }
+
+  return models;
+};
+
+const fetchOpenAIModels = async (target: ApiTarget, signal?: AbortSignal): Promise<string[]> => {
+  const body = await requestJson<OpenAIModelListResponse>(buildModelListRequest(target), target, signal);
+  return (body.data || []).map((model) => model.id || '').filter(Boolean);
+};
+
+/**
+ * 返回去重后的模型名称，疑似图片模型在前，其余按名称排序
+ */
+export const fetchAvailableModels = async (target: ApiTarget, signal?: AbortSignal): Promise<string[]> => {
+  if (!target.url.trim() || !target.key.trim()) {
+    throw new ModelCatalogError('请先配置 API URL 和 Key', { code: ERROR_CODES.notConfigured });
+  }
+
+  const models =
+    target.apiType === 'gemini' ? await fetchGeminiModels(target, signal) : await fetchOpenAIModels(target, signal);
+  return Array.from(new Set(models)).sort(compareModels);
+};
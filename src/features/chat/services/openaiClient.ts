@@ -1,13 +1,25 @@
-import { apiConfig } from '../utils/apiConfig';
-import { DEFAULT_REQUEST_TIMEOUT_MS, requestWithMode } from './request';
+import { apiConfig, type ApiTarget } from '../utils/apiConfig';
+import { applyOpenAIImageOptions } from '../utils/openaiImageOptions';
+import type { AspectRatio, ImageSize } from '../types';
+import { DEFAULT_REQUEST_TIMEOUT_MS, requestWithRetry } from './request';
+import { ERROR_CODES } from './errors';
+import type { RetryStatus } from './retry';
+import { readSseData } from './sse';
 import type {
   GeminiInlineDataInput,
   GeminiMessage,
   GeminiResult,
+  GeminiResultCandidate,
+  GeminiResultPart,
+  GeminiSamplingParams,
+  GeminiStreamUpdate,
+  GeminiTokenUsage,
 } from '@/types/gemini';
 
 const MODEL_PATH = '/v1/chat/completions';
 
+export const OPENAI_CANCELLED_CODE = 'CANCELLED';
+
 export class OpenAIClientError extends Error {
   status?: number;
   code?: string;
@@ -26,10 +38,37 @@ type OpenAICallParams = {
   prompt: string;
   history?: GeminiMessage[];
   images?: GeminiInlineDataInput[];
-  aspectRatio?: string;
-  imageSize?: string;
+  /**
+   * 画幅与分辨率：按目标配置的传递方式映射（额外请求体字段 / 模型名后缀 / 提示词说明），默认不发送
+   */
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
   includeThinking?: boolean;
   useSearch?: boolean;
+  /**
+   * 系统指令（人设），作为首条 system 消息发送
+   */
+  systemInstruction?: string;
+  /**
+   * 采样参数：映射为 temperature / top_p / seed / n（OpenAI 没有 top_k，不发送）
+   */
+  generationParams?: GeminiSamplingParams;
+  /**
+   * 流式响应时每收到一段内容回调一次；未开启流式响应时不会触发
+   */
+  onProgress?: (update: GeminiStreamUpdate) => void;
+  /**
+   * 遇到 429 / 5xx 准备自动重试时回调
+   */
+  onRetry?: (status: RetryStatus) => void;
+  /**
+   * 用户主动取消生成时触发
+   */
+  signal?: AbortSignal;
+  /**
+   * 指定请求目标（URL / Key / 模型 / 请求方式），默认使用当前设置
+   */
+  target?: ApiTarget;
 };
 
 type OpenAIMessageContent =
@@ -45,7 +84,14 @@ type OpenAIRequestPayload = {
   model: string;
   messages: OpenAIMessage[];
   max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  seed?: number;
+  n?: number;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  // 画幅与分辨率映射出的额外字段（如 generationConfig）
+  [field: string]: unknown;
 };
 
 type OpenAIChoice = {
@@ -66,8 +112,12 @@ type OpenAIResponse = {
   choices: OpenAIChoice[];
   usage?: {
     prompt_tokens: number;
-    completion_tokens: number;
+    completion_tokens: number; // 含推理
     total_tokens: number;
+    completion_tokens_details?: {
+      reasoning_tokens?: number;
+      image_tokens?: number;
+    };
   };
   error?: {
     message: string;
@@ -76,6 +126,26 @@ type OpenAIResponse = {
   };
 };
 
+type OpenAIStreamChunk = {
+  id?: string;
+  object?: string;
+  created?: number;
+  model?: string;
+  choices?: Array<{
+    index: number;
+    delta?: {
+      role?: 'assistant';
+      content?: string | null;
+      reasoning_content?: string | null;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIResponse['usage'];
+  error?: OpenAIResponse['error'];
+};
+
+const STREAM_DONE_MARKER = '[DONE]';
+
 const normalizeBaseUrl = (url: string) => url.replace(/\/$/, '');
 
 const geminiRoleToOpenAI = (role: 'user' | 'model'): 'user' | 'assistant' => {
@@ -138,20 +208,130 @@ const buildUserMessage = (prompt: string, images: GeminiInlineDataInput[] = []):
   return { role: 'user', content };
 };
 
-const extractImageFromMarkdown = (text: string): { cleanText: string; imageData: string | null } => {
-  const imagePattern = /!\[.*?\]\(data:image\/[^;]+;base64,([^)]+)\)/g;
-  const matches = [...text.matchAll(imagePattern)];
+/**
+ * 把回复中的图片 Markdown（![..](data:image/...;base64,...)）拆成按顺序排列的图文片段
+ */
+const extractImagesFromMarkdown = (
+  text: string
+): { cleanText: string; segments: GeminiResultPart[]; imageData: string | null } => {
+  const imagePattern = /!\[.*?\]\(data:(image\/[^;]+);base64,([^)]+)\)/g;
+  const segments: GeminiResultPart[] = [];
+  const textSegments: string[] = [];
+
+  const pushText = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    segments.push({ text: trimmed });
+    textSegments.push(trimmed);
+  };
 
+  let cursor = 0;
   let imageData: string | null = null;
-  if (matches.length > 0) {
-    imageData = matches[matches.length - 1][1];
+  for (const match of text.matchAll(imagePattern)) {
+    pushText(text.slice(cursor, match.index));
+    segments.push({ image: { data: match[2], mimeType: match[1] } });
+    imageData = match[2];
+    cursor = (match.index ?? 0) + match[0].length;
   }
+  pushText(text.slice(cursor));
+
+  return { cleanText: textSegments.join('\n\n'), segments, imageData };
+};
+
+const DATA_URL_PREFIX = 'data:image/';
+// 图片 Markdown 的描述文字不跨行且不会很长；超出后按普通文本处理，避免字面的 `![` 让后续文本一直无法显示
+const MAX_IMAGE_ALT_LENGTH = 256;
+const IMAGE_MARKDOWN_PATTERN = /^!\[.*?\]\(data:(image\/[^;]+);base64,([^)]+)\)$/;
+
+/**
+ * 流式输出时增量提取图片 Markdown：已确定的图文片段不再重复扫描；图片还没传完时，
+ * 只在新到达的部分中查找闭合的 `)`，并暂不展示这段未完成的 Markdown。
+ * 数 MB 的 base64 图片逐块到达时，每块的处理量只与该块大小有关。
+ */
+const createStreamingImageExtractor = () => {
+  const finished: GeminiResultPart[] = [];
+  const finishedTexts: string[] = [];
+  let lastImageData: string | null = null;
+  // 已确定片段的结束位置；其后的文本仍可能变化
+  let cursor = 0;
+  // 下一次查找 `![` 的起点
+  let searchFrom = 0;
+  // 尚未闭合的 data URL 图片：起始位置与下一次查找 `)` 的起点
+  let openImage: { start: number; scanFrom: number } | null = null;
+
+  const pushText = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    finished.push({ text: trimmed });
+    finishedTexts.push(trimmed);
+  };
+
+  return (content: string): { cleanText: string; segments: GeminiResultPart[]; imageData: string | null } => {
+    let tailEnd = content.length;
+
+    for (;;) {
+      if (!openImage) {
+        const start = content.indexOf('![', searchFrom);
+        if (start === -1) {
+          // 末尾的 `!` 可能是下一块中 `![` 的开头
+          searchFrom = Math.max(cursor, content.length - 1);
+          break;
+        }
+        const urlStart = content.indexOf('](', start);
+        const altEnd = urlStart === -1 ? content.length : urlStart;
+        const lineEnd = content.indexOf('\n', start);
+        if ((lineEnd !== -1 && lineEnd < altEnd) || altEnd - start > MAX_IMAGE_ALT_LENGTH) {
+          searchFrom = start + 2;
+          continue;
+        }
+        const url = urlStart === -1 ? '' : content.slice(urlStart + 2, urlStart + 2 + DATA_URL_PREFIX.length);
+        if (urlStart === -1 || (url.length < DATA_URL_PREFIX.length && DATA_URL_PREFIX.startsWith(url))) {
+          // 还不能确定是否为 data URL 图片，等待后续内容
+          searchFrom = start;
+          tailEnd = start;
+          break;
+        }
+        if (url !== DATA_URL_PREFIX) {
+          // 普通链接的图片按文本处理
+          searchFrom = start + 2;
+          continue;
+        }
+        openImage = { start, scanFrom: urlStart + 2 };
+      }
+
+      const close = content.indexOf(')', openImage.scanFrom);
+      if (close === -1) {
+        openImage.scanFrom = content.length;
+        tailEnd = openImage.start;
+        break;
+      }
 
-  const cleanText = text.replace(imagePattern, '').trim();
+      const match = IMAGE_MARKDOWN_PATTERN.exec(content.slice(openImage.start, close + 1));
+      if (match) {
+        pushText(content.slice(cursor, openImage.start));
+        finished.push({ image: { data: match[2], mimeType: match[1] } });
+        lastImageData = match[2];
+        cursor = close + 1;
+        searchFrom = cursor;
+      } else {
+        searchFrom = openImage.start + 2;
+      }
+      openImage = null;
+    }
 
-  return { cleanText, imageData };
+    const tail = content.slice(cursor, tailEnd).trim();
+    const texts = tail ? [...finishedTexts, tail] : finishedTexts;
+    return {
+      cleanText: texts.join('\n\n'),
+      segments: tail ? [...finished, { text: tail }] : [...finished],
+      imageData: lastImageData,
+    };
+  };
 };
 
+const buildResultParts = (segments: GeminiResultPart[], reasoningContent: string): GeminiResultPart[] =>
+  reasoningContent ? [{ text: reasoningContent, thought: true }, ...segments] : segments;
+
 const toOpenAIError = (status: number, body: unknown): OpenAIClientError => {
   if (body && typeof body === 'object') {
     const errorBody = body as { error?: { message?: string; type?: string; code?: string } };
@@ -190,31 +370,169 @@ const parseResponse = async (response: Response): Promise<OpenAIResponse> => {
   return (parsed || {}) as OpenAIResponse;
 };
 
-const requestOpenAI = async (payload: OpenAIRequestPayload, apiKey: string, baseUrl: string): Promise<OpenAIResponse> => {
+/**
+ * 读取 stream: true 的 SSE 响应，累积 delta.content / delta.reasoning_content，
+ * 最终拼装成与非流式一致的 OpenAIResponse。
+ */
+const parseStreamResponse = async (
+  response: Response,
+  onDelta?: (content: string, reasoningContent: string) => void
+): Promise<OpenAIResponse> => {
+  if (!response.ok) {
+    return parseResponse(response);
+  }
+
+  // n > 1 时各 choice 按 index 分别累积
+  const choices = new Map<number, { content: string; reasoningContent: string; finishReason: string }>();
+  let meta: Pick<OpenAIResponse, 'id' | 'object' | 'created' | 'model' | 'usage'> = {
+    id: '',
+    object: 'chat.completion',
+    created: 0,
+    model: '',
+  };
+
+  for await (const data of readSseData(response)) {
+    if (data.trim() === STREAM_DONE_MARKER) break;
+
+    let chunk: OpenAIStreamChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      continue;
+    }
+
+    if (chunk.error) {
+      throw toOpenAIError(response.status, chunk);
+    }
+
+    meta = {
+      id: chunk.id || meta.id,
+      object: meta.object,
+      created: chunk.created || meta.created,
+      model: chunk.model || meta.model,
+      usage: chunk.usage || meta.usage,
+    };
+
+    if (!chunk.choices?.length) continue;
+
+    chunk.choices.forEach((choice, position) => {
+      const index = choice.index ?? position;
+      const entry = choices.get(index) || { content: '', reasoningContent: '', finishReason: '' };
+      choices.set(index, entry);
+
+      entry.content += choice.delta?.content || '';
+      entry.reasoningContent += choice.delta?.reasoning_content || '';
+      entry.finishReason = choice.finish_reason || entry.finishReason;
+    });
+
+    // 流式展示只跟随第一个 choice
+    const first = choices.get(Math.min(...choices.keys()));
+    if (first) onDelta?.(first.content, first.reasoningContent);
+  }
+
+  return {
+    ...meta,
+    choices: [...choices.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, { content, reasoningContent, finishReason }]) => ({
+        index,
+        message: {
+          role: 'assistant',
+          content,
+          ...(reasoningContent ? { reasoning_content: reasoningContent } : {}),
+        },
+        finish_reason: finishReason,
+      })),
+  };
+};
+
+const requestOpenAI = async (
+  payload: OpenAIRequestPayload,
+  target: ApiTarget,
+  { onProgress, onRetry, signal }: Pick<OpenAICallParams, 'onProgress' | 'onRetry' | 'signal'> = {}
+): Promise<OpenAIResponse> => {
   try {
-    const response = await requestWithMode({
-      url: `${normalizeBaseUrl(baseUrl)}${MODEL_PATH}`,
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
+    const response = await requestWithRetry(
+      {
+        url: `${normalizeBaseUrl(target.url)}${MODEL_PATH}`,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${target.key}`,
+        },
+        body: payload,
+        timeoutMs: DEFAULT_REQUEST_TIMEOUT_MS,
+        stream: payload.stream,
+        signal,
+        requestMode: target.requestMode,
       },
-      body: payload,
-      timeoutMs: DEFAULT_REQUEST_TIMEOUT_MS,
-    });
+      { onRetry }
+    );
 
-    return parseResponse(response);
+    if (!payload.stream) {
+      return await parseResponse(response);
+    }
+
+    // 只对已经完整的图片 Markdown 做提取，避免把半截 data URL 当成图片
+    const extractImages = createStreamingImageExtractor();
+    let shown = { text: '', reasoningContent: '', imageCount: 0 };
+    return await parseStreamResponse(response, (content, reasoningContent) => {
+      const { cleanText, segments, imageData } = extractImages(content);
+      const imageCount = segments.filter((segment) => segment.image).length;
+      // 图片传输期间大部分数据块不改变可见内容，无需触发界面更新
+      if (
+        cleanText === shown.text &&
+        reasoningContent === shown.reasoningContent &&
+        imageCount === shown.imageCount
+      ) {
+        return;
+      }
+      shown = { text: cleanText, reasoningContent, imageCount };
+      onProgress?.({
+        text: cleanText,
+        parts: buildResultParts(segments, reasoningContent),
+        imageData,
+      });
+    });
   } catch (error) {
+    if (signal?.aborted) {
+      throw new OpenAIClientError('已取消生成', { code: OPENAI_CANCELLED_CODE, details: error });
+    }
     if (error instanceof OpenAIClientError) {
       throw error;
     }
     if (error && typeof error === 'object' && 'name' in error && error.name === 'AbortError') {
-      throw new OpenAIClientError('请求超时（已等待 20 分钟）', { details: error });
+      throw new OpenAIClientError('请求超时（已等待 20 分钟）', { code: ERROR_CODES.timeout, details: error });
     }
-    throw new OpenAIClientError('网络请求失败', { details: error });
+    throw new OpenAIClientError('网络请求失败', { code: ERROR_CODES.network, details: error });
   }
 };
 
+const toTokenUsage = (usage?: OpenAIResponse['usage']): GeminiTokenUsage | undefined => {
+  if (!usage) return undefined;
+  const thoughtTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+  return {
+    promptTokens,
+    outputTokens: Math.max(0, completionTokens - thoughtTokens),
+    thoughtTokens,
+    imageTokens: usage.completion_tokens_details?.image_tokens || 0,
+    totalTokens: usage.total_tokens || promptTokens + completionTokens,
+  };
+};
+
+const convertChoice = (choice: OpenAIChoice): { candidate: GeminiResultCandidate; segments: GeminiResultPart[] } => {
+  const content = choice.message?.content || '';
+  const reasoningContent = choice.message?.reasoning_content || '';
+  const { cleanText, segments, imageData } = extractImagesFromMarkdown(content);
+
+  return {
+    candidate: { text: cleanText, parts: buildResultParts(segments, reasoningContent), imageData },
+    segments,
+  };
+};
+
 const convertOpenAIResponseToGeminiResult = (
   response: OpenAIResponse,
   previousHistory: GeminiMessage[],
@@ -228,33 +546,25 @@ const convertOpenAIResponseToGeminiResult = (
       imageData: null,
       thinkingImages: [],
       groundingMetadata: undefined,
+      usage: toTokenUsage(response.usage),
       history: [...previousHistory, userMessage],
     };
   }
 
-  const content = choice.message?.content || '';
-  const reasoningContent = choice.message?.reasoning_content || '';
+  if (!choice.message?.content && choice.finish_reason === 'content_filter') {
+    throw new OpenAIClientError('未返回内容（content_filter）', { code: 'content_filter', details: response });
+  }
 
-  const { cleanText, imageData } = extractImageFromMarkdown(content);
+  const { candidate, segments } = convertChoice(choice);
 
   const thinkingImages: string[] = [];
-  const parts: Array<{ text: string; thought?: boolean }> = [];
-
-  if (reasoningContent) {
-    parts.push({ text: reasoningContent, thought: true });
-  }
-
-  if (cleanText) {
-    parts.push({ text: cleanText });
-  }
 
-  const assistantParts: Array<{ text?: string; inline_data?: { mime_type: string; data: string } }> = [];
-  if (cleanText) {
-    assistantParts.push({ text: cleanText });
-  }
-  if (imageData) {
-    assistantParts.push({ inline_data: { mime_type: 'image/png', data: imageData } });
-  }
+  const assistantParts: Array<{ text?: string; inline_data?: { mime_type: string; data: string } }> = segments.map(
+    (segment) =>
+      segment.image
+        ? { inline_data: { mime_type: segment.image.mimeType || 'image/png', data: segment.image.data } }
+        : { text: segment.text }
+  );
 
   // 如果没有任何内容，添加一个空文本避免空消息
   if (assistantParts.length === 0) {
@@ -267,12 +577,16 @@ const convertOpenAIResponseToGeminiResult = (
     { role: 'model', parts: assistantParts },
   ];
 
+  // n > 1 时返回全部 choice，history 只记录第一个
+  const candidates =
+    response.choices.length > 1 ? response.choices.map((item) => convertChoice(item).candidate) : undefined;
+
   return {
-    text: cleanText,
-    parts,
-    imageData,
+    ...candidate,
     thinkingImages,
     groundingMetadata: undefined,
+    candidates,
+    usage: toTokenUsage(response.usage),
     history: updatedHistory,
   };
 };
@@ -281,26 +595,47 @@ const callOpenAIApi = async ({
   prompt,
   images = [],
   history = [],
+  aspectRatio = '1:1',
+  imageSize = '1K',
+  systemInstruction,
+  generationParams = {},
+  onProgress,
+  onRetry,
+  signal,
+  target = apiConfig.getCurrentTarget(),
 }: OpenAICallParams): Promise<GeminiResult> => {
-  const baseUrl = apiConfig.getUrl();
-  const apiKey = apiConfig.getKey();
+  if (!target.url || !target.key) {
+    throw new OpenAIClientError('请先配置 API URL 和 Key', { code: ERROR_CODES.notConfigured });
+  }
 
-  if (!baseUrl || !apiKey) {
-    throw new OpenAIClientError('请先配置 API URL 和 Key');
+  const mapped = applyOpenAIImageOptions(target.imageOptions, { model: target.model, prompt, aspectRatio, imageSize });
+  if (!mapped.extraBody) {
+    throw new OpenAIClientError('画幅与分辨率的额外请求体模板不是有效的 JSON 对象，请在设置中修改');
   }
 
   const openaiHistory = convertHistoryToOpenAI(history);
-  const userMessage = buildUserMessage(prompt, images);
-  const messages = [...openaiHistory, userMessage];
+  const userMessage = buildUserMessage(mapped.prompt, images);
+  const systemMessages: OpenAIMessage[] = systemInstruction?.trim()
+    ? [{ role: 'system', content: systemInstruction.trim() }]
+    : [];
+  const messages = [...systemMessages, ...openaiHistory, userMessage];
+  const stream = apiConfig.getStreamResponse();
 
   const payload: OpenAIRequestPayload = {
-    model: apiConfig.getModel(),
+    ...mapped.extraBody,
+    model: mapped.model,
     messages,
     max_tokens: 4096,
-    stream: false,
+    temperature: generationParams.temperature,
+    top_p: generationParams.topP,
+    seed: generationParams.seed,
+    n: generationParams.candidateCount,
+    stream,
+    // 流式响应默认不返回用量，需显式请求
+    stream_options: stream ? { include_usage: true } : undefined,
   };
 
-  const response = await requestOpenAI(payload, apiKey, baseUrl);
+  const response = await requestOpenAI(payload, target, { onProgress, onRetry, signal });
 
   const geminiUserMessage: GeminiMessage = {
     role: 'user',
@@ -316,46 +651,33 @@ const callOpenAIApi = async ({
 };
 
 export const openaiClient = {
-  generateImage: ({
-    prompt,
-    history,
-  }: Omit<OpenAICallParams, 'images' | 'useSearch'>) =>
-    callOpenAIApi({ prompt, history }),
+  generateImage: (params: Omit<OpenAICallParams, 'images' | 'useSearch'>) => callOpenAIApi(params),
 
   editImage: ({
     imageData,
     editPrompt,
-    history,
+    ...options
   }: {
     imageData: string;
     editPrompt: string;
   } & Omit<OpenAICallParams, 'prompt' | 'images' | 'useSearch'>) =>
     callOpenAIApi({
+      ...options,
       prompt: editPrompt,
       images: [{ data: imageData, mimeType: 'image/png' }],
-      history,
     }),
 
   compositeImages: ({
-    prompt,
     imageDataList,
-    history,
+    ...options
   }: {
     prompt: string;
     imageDataList: GeminiInlineDataInput[];
   } & Omit<OpenAICallParams, 'images' | 'useSearch'>) =>
     callOpenAIApi({
-      prompt,
+      ...options,
       images: imageDataList,
-      history,
     }),
 
-  generateWithSearch: ({
-    prompt,
-    history,
-  }: Omit<OpenAICallParams, 'images' | 'useSearch'>) =>
-    callOpenAIApi({
-      prompt,
-      history,
-    }),
+  generateWithSearch: (params: Omit<OpenAICallParams, 'images' | 'useSearch'>) => callOpenAIApi(params),
 };
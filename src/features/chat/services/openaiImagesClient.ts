@@ -0,0 +1,324 @@
+import { apiConfig, type ApiTarget } from '../utils/apiConfig';
+import { toOpenAIImageSize } from '../utils/imageSize';
+import type { AspectRatio, ImageSize } from '../types';
+import { DEFAULT_REQUEST_TIMEOUT_MS, requestWithRetry, type MultipartField } from './request';
+import { ERROR_CODES } from './errors';
+import { OPENAI_CANCELLED_CODE, OpenAIClientError } from './openaiClient';
+import type { RetryStatus } from './retry';
+import type {
+  GeminiInlineDataInput,
+  GeminiMessage,
+  GeminiResult,
+  GeminiResultCandidate,
+  GeminiSamplingParams,
+  GeminiTokenUsage,
+} from '@/types/gemini';
+
+/**
+ * OpenAI Images API：文生图走 /v1/images/generations（JSON），
+ * 编辑与多图合成走 /v1/images/edits（multipart，可附带蒙版）。
+ * 接口本身没有上下文，history 仍按对话记录，切换到其他接口类型时可以继续使用。
+ */
+
+const GENERATIONS_PATH = '/v1/images/generations';
+const EDITS_PATH = '/v1/images/edits';
+
+type OpenAIImagesCallParams = {
+  prompt: string;
+  history?: GeminiMessage[];
+  images?: GeminiInlineDataInput[];
+  /**
+   * 编辑时的蒙版：透明区域为需要重绘的部分（PNG，尺寸需与原图一致）
+   */
+  mask?: GeminiInlineDataInput;
+  aspectRatio?: AspectRatio;
+  imageSize?: ImageSize;
+  /**
+   * Images API 没有系统消息，系统指令拼接在提示词之前
+   */
+  systemInstruction?: string;
+  /**
+   * 只使用候选数（映射为 n），其余采样参数 Images API 不支持
+   */
+  generationParams?: GeminiSamplingParams;
+  onRetry?: (status: RetryStatus) => void;
+  signal?: AbortSignal;
+  target?: ApiTarget;
+};
+
+type OpenAIImagesResponse = {
+  created?: number;
+  data?: Array<{
+    b64_json?: string;
+    url?: string;
+    revised_prompt?: string;
+  }>;
+  // gpt-image 系列返回实际的输出格式（png / jpeg / webp）
+  output_format?: string;
+  // gpt-image 系列返回；dall-e 系列没有
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    total_tokens?: number;
+  };
+};
+
+const normalizeBaseUrl = (url: string) => url.replace(/\/$/, '');
+
+// gpt-image 系列总是返回 base64，且会拒绝 response_format 参数
+const acceptsResponseFormat = (model: string): boolean => !/^gpt-image/i.test(model.trim());
+
+// base64 开头对应的文件头
+const BASE64_SIGNATURES: Array<[prefix: string, mimeType: string]> = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['UklGR', 'image/webp'],
+  ['R0lGOD', 'image/gif'],
+];
+
+/**
+ * 优先按文件头判断图片格式，其次使用接口返回的 output_format，都没有时按 PNG 处理
+ */
+const toImageMimeType = (data: string, outputFormat?: string): string =>
+  BASE64_SIGNATURES.find(([prefix]) => data.startsWith(prefix))?.[1] ||
+  (outputFormat ? `image/${outputFormat.toLowerCase().replace('jpg', 'jpeg')}` : 'image/png');
+
+const toExtension = (mimeType?: string): string => (mimeType?.split('/')[1] || 'png').replace('jpeg', 'jpg');
+
+const toOpenAIImagesError = (status: number, body: unknown): OpenAIClientError => {
+  if (body && typeof body === 'object' && 'error' in body) {
+    const error = (body as { error?: { message?: string; type?: string; code?: string } }).error;
+    return new OpenAIClientError(error?.message || '请求失败', {
+      status,
+      code: error?.code || error?.type,
+      details: body,
+    });
+  }
+  if (typeof body === 'string' && body.trim().length > 0) {
+    return new OpenAIClientError(body, { status, details: body });
+  }
+  return new OpenAIClientError('请求失败', { status, details: body });
+};
+
+const parseResponse = async (response: Response): Promise<OpenAIImagesResponse> => {
+  const text = await response.text();
+
+  let parsed: unknown = {};
+  if (text) {
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = text;
+    }
+  }
+
+  if (!response.ok) {
+    throw toOpenAIImagesError(response.status, parsed);
+  }
+
+  return (parsed && typeof parsed === 'object' ? parsed : {}) as OpenAIImagesResponse;
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * 部分服务商只返回图片 URL：尝试下载为 base64 以便保存与编辑，失败（如跨域限制）时返回 null
+ */
+const downloadImage = async (url: string, signal?: AbortSignal): Promise<GeminiInlineDataInput | null> => {
+  try {
+    const response = await fetch(url, { signal });
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return { data: await blobToBase64(blob), mimeType: blob.type || 'image/png' };
+  } catch {
+    return null;
+  }
+};
+
+const toTokenUsage = (usage?: OpenAIImagesResponse['usage']): GeminiTokenUsage | undefined => {
+  if (!usage) return undefined;
+  const promptTokens = usage.input_tokens || 0;
+  const outputTokens = usage.output_tokens || 0;
+  return {
+    promptTokens,
+    outputTokens,
+    thoughtTokens: 0,
+    // Images API 的输出全部是图片
+    imageTokens: outputTokens,
+    totalTokens: usage.total_tokens || promptTokens + outputTokens,
+  };
+};
+
+const toCandidate = async (
+  item: NonNullable<OpenAIImagesResponse['data']>[number],
+  outputFormat?: string,
+  signal?: AbortSignal
+): Promise<GeminiResultCandidate> => {
+  const image = item.b64_json
+    ? { data: item.b64_json, mimeType: toImageMimeType(item.b64_json, outputFormat) }
+    : item.url
+      ? await downloadImage(item.url, signal)
+      : null;
+
+  const texts = [
+    item.revised_prompt ? `修订后的提示词：${item.revised_prompt}` : '',
+    !image && item.url ? `图片地址（无法直接下载）：${item.url}` : '',
+  ].filter(Boolean);
+
+  return {
+    text: texts.join('\n\n'),
+    parts: [...texts.map((text) => ({ text })), ...(image ? [{ image }] : [])],
+    imageData: image?.data ?? null,
+  };
+};
+
+const callOpenAIImagesApi = async ({
+  prompt,
+  history = [],
+  images = [],
+  mask,
+  aspectRatio = '1:1',
+  imageSize = '1K',
+  systemInstruction,
+  generationParams = {},
+  onRetry,
+  signal,
+  target = apiConfig.getCurrentTarget(),
+}: OpenAIImagesCallParams): Promise<GeminiResult> => {
+  if (!target.url || !target.key) {
+    throw new OpenAIClientError('请先配置 API URL 和 Key', { code: ERROR_CODES.notConfigured });
+  }
+
+  const fullPrompt = systemInstruction?.trim() ? `${systemInstruction.trim()}\n\n${prompt}` : prompt;
+  const size = toOpenAIImageSize(target.model, aspectRatio, imageSize);
+  const responseFormat = acceptsResponseFormat(target.model) ? 'b64_json' : undefined;
+  const n = generationParams.candidateCount;
+  const isEdit = images.length > 0;
+
+  // 多张参考图时使用 image[] 字段（gpt-image 系列支持多图输入）
+  const imageField = images.length > 1 ? 'image[]' : 'image';
+  const multipart: MultipartField[] | undefined = isEdit
+    ? [
+        { name: 'model', value: target.model },
+        { name: 'prompt', value: fullPrompt },
+        { name: 'size', value: size },
+        ...(n ? [{ name: 'n', value: String(n) }] : []),
+        ...(responseFormat ? [{ name: 'response_format', value: responseFormat }] : []),
+        ...images.map(({ data, mimeType }, idx) => ({
+          name: imageField,
+          data,
+          mimeType: mimeType || 'image/png',
+          filename: `image-${idx + 1}.${toExtension(mimeType)}`,
+        })),
+        ...(mask ? [{ name: 'mask', data: mask.data, mimeType: mask.mimeType || 'image/png', filename: 'mask.png' }] : []),
+      ]
+    : undefined;
+
+  let response: OpenAIImagesResponse;
+  try {
+    const raw = await requestWithRetry(
+      {
+        url: `${normalizeBaseUrl(target.url)}${isEdit ? EDITS_PATH : GENERATIONS_PATH}`,
+        method: 'POST',
+        headers: isEdit
+          ? { Authorization: `Bearer ${target.key}` }
+          : { 'Content-Type': 'application/json', Authorization: `Bearer ${target.key}` },
+        body: isEdit ? undefined : { model: target.model, prompt: fullPrompt, size, n, response_format: responseFormat },
+        multipart,
+        timeoutMs: DEFAULT_REQUEST_TIMEOUT_MS,
+        signal,
+        requestMode: target.requestMode,
+      },
+      { onRetry }
+    );
+    response = await parseResponse(raw);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new OpenAIClientError('已取消生成', { code: OPENAI_CANCELLED_CODE, details: error });
+    }
+    if (error instanceof OpenAIClientError) {
+      throw error;
+    }
+    if (error && typeof error === 'object' && 'name' in error && error.name === 'AbortError') {
+      throw new OpenAIClientError('请求超时（已等待 20 分钟）', { code: ERROR_CODES.timeout, details: error });
+    }
+    throw new OpenAIClientError('网络请求失败', { code: ERROR_CODES.network, details: error });
+  }
+
+  const candidates = await Promise.all((response.data || []).map((item) => toCandidate(item, response.output_format, signal)));
+  const [first] = candidates;
+  if (!first) {
+    throw new OpenAIClientError('未返回图片', { details: response });
+  }
+
+  const userMessage: GeminiMessage = {
+    role: 'user',
+    parts: [
+      { text: prompt },
+      ...images.map(({ data, mimeType }) => ({ inline_data: { mime_type: mimeType || 'image/png', data } })),
+    ],
+  };
+  // n > 1 时 history 只记录第一个候选；选用其他变体时由会话按消息重建上下文
+  const firstImage = first.parts.find((part) => part.image)?.image;
+  const modelMessage: GeminiMessage = {
+    role: 'model',
+    parts: firstImage
+      ? [{ inline_data: { mime_type: firstImage.mimeType || 'image/png', data: firstImage.data } }]
+      : [{ text: first.text }],
+  };
+
+  return {
+    ...first,
+    thinkingImages: [],
+    groundingMetadata: undefined,
+    candidates: candidates.length > 1 ? candidates : undefined,
+    usage: toTokenUsage(response.usage),
+    history: [...history, userMessage, modelMessage],
+  };
+};
+
+export const openaiImagesClient = {
+  generateImage: (params: Omit<OpenAIImagesCallParams, 'images' | 'mask'>) => callOpenAIImagesApi(params),
+
+  editImage: ({
+    imageData,
+    editPrompt,
+    referenceImages = [],
+    ...options
+  }: {
+    imageData: string;
+    editPrompt: string;
+    /**
+     * 随待编辑图片一起发送的参考图（image[]）；蒙版只作用于待编辑图片
+     */
+    referenceImages?: GeminiInlineDataInput[];
+  } & Omit<OpenAIImagesCallParams, 'prompt' | 'images'>) =>
+    callOpenAIImagesApi({
+      ...options,
+      prompt: editPrompt,
+      images: [{ data: imageData, mimeType: toImageMimeType(imageData) }, ...referenceImages],
+    }),
+
+  compositeImages: ({
+    imageDataList,
+    ...options
+  }: {
+    prompt: string;
+    imageDataList: GeminiInlineDataInput[];
+  } & Omit<OpenAIImagesCallParams, 'images'>) =>
+    callOpenAIImagesApi({
+      ...options,
+      images: imageDataList,
+    }),
+
+  // Images API 不支持联网搜索，按普通生成处理（调用方会提前拦截）
+  generateWithSearch: (params: Omit<OpenAIImagesCallParams, 'images' | 'mask'>) => callOpenAIImagesApi(params),
+};
@@ -1,38 +1,145 @@
-import { apiConfig } from '../utils/apiConfig';
+import { apiConfig, type RequestMode } from '../utils/apiConfig';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  waitForRetry,
+  type RetryPolicy,
+  type RetryStatus,
+} from './retry';
 
 export const DEFAULT_REQUEST_TIMEOUT_MS = 20 * 60 * 1000;
 
+/**
+ * multipart/form-data 的一个字段；文件以 base64 传递，服务端转发时按同样结构在服务端重新组装
+ */
+export type MultipartField =
+  | { name: string; value: string }
+  | { name: string; data: string; mimeType: string; filename: string };
+
 type RequestModePayload = {
   url: string;
   method: string;
   headers: Record<string, string>;
   body?: unknown;
+  /**
+   * 以 multipart/form-data 发送（与 body 二选一），Content-Type 由 fetch 自动生成
+   */
+  multipart?: MultipartField[];
   timeoutMs?: number;
+  /**
+   * 以事件流（SSE）读取响应：服务端转发时会逐块透传，而不是等待完整响应
+   */
+  stream?: boolean;
+  /**
+   * 调用方的取消信号（用户主动停止生成）
+   */
+  signal?: AbortSignal;
+  /**
+   * 覆盖当前设置中的请求方式（对比模式下各目标可独立配置）
+   */
+  requestMode?: RequestMode;
+};
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * 响应体读取结束（完成、出错或被取消）时调用 release；流式响应的 body 在返回后仍在读取，
+ * 需要保持取消监听直到读取结束
+ */
+const releaseOnBodyEnd = (response: Response, release: () => void): Response => {
+  if (!response.body || NULL_BODY_STATUSES.includes(response.status)) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
 };
 
 const fetchWithTimeout = async (
   input: RequestInfo | URL,
   init: RequestInit,
-  timeoutMs: number
+  timeoutMs: number,
+  signal?: AbortSignal
 ): Promise<Response> => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
+  const onAbort = () => controller.abort();
+  const release = () => signal?.removeEventListener('abort', onAbort);
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
   try {
-    return await fetch(input, { ...init, signal: controller.signal });
+    const response = await fetch(input, { ...init, signal: controller.signal });
+    return releaseOnBodyEnd(response, release);
+  } catch (error) {
+    release();
+    throw error;
   } finally {
     clearTimeout(timeoutId);
   }
 };
 
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const toFormData = (fields: MultipartField[]): FormData => {
+  const form = new FormData();
+  fields.forEach((field) => {
+    if ('value' in field) {
+      form.append(field.name, field.value);
+    } else {
+      form.append(field.name, base64ToBlob(field.data, field.mimeType), field.filename);
+    }
+  });
+  return form;
+};
+
 export const requestWithMode = async ({
   url,
   method,
   headers,
   body,
+  multipart,
   timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  stream = false,
+  signal,
+  requestMode,
 }: RequestModePayload): Promise<Response> => {
-  const mode = apiConfig.getRequestMode();
+  const mode = requestMode ?? apiConfig.getRequestMode();
   const resolvedTimeout = Math.max(1_000, Math.min(timeoutMs, DEFAULT_REQUEST_TIMEOUT_MS));
 
   if (mode === 'server') {
@@ -41,9 +148,10 @@ export const requestWithMode = async ({
       {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url, method, headers, body, timeoutMs: resolvedTimeout }),
+        body: JSON.stringify({ url, method, headers, body, multipart, timeoutMs: resolvedTimeout, stream }),
       },
-      resolvedTimeout
+      resolvedTimeout,
+      signal
     );
   }
 
@@ -52,9 +160,76 @@ export const requestWithMode = async ({
     {
       method,
       headers,
-      body: body == null ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+      body: multipart
+        ? toFormData(multipart)
+        : body == null
+          ? undefined
+          : typeof body === 'string'
+            ? body
+            : JSON.stringify(body),
     },
-    resolvedTimeout
+    resolvedTimeout,
+    signal
   );
 };
 
+
+type RetryOptions = {
+  policy?: RetryPolicy;
+  /**
+   * 安排重试与等待结束时各回调一次（用于在界面上提示重试进度）
+   */
+  onRetry?: (status: RetryStatus) => void;
+};
+
+// fetch 在连接失败、DNS 解析失败或连接被重置时抛出 TypeError；超时与取消为 AbortError
+const isTransportError = (error: unknown): boolean => error instanceof TypeError;
+
+// 通知等待重试，等待结束后再通知一次，界面据此更新提示
+const scheduleRetry = async (
+  status: Omit<RetryStatus, 'phase'>,
+  signal: AbortSignal | undefined,
+  onRetry: RetryOptions['onRetry']
+): Promise<void> => {
+  onRetry?.({ ...status, phase: 'waiting' });
+  await waitForRetry(status.delayMs, signal);
+  onRetry?.({ ...status, phase: 'retrying' });
+};
+
+/**
+ * 带重试的 requestWithMode：根据响应状态码判断，在读取响应体之前重试，
+ * 因此流式与非流式请求行为一致；连接失败等网络错误按同样的退避重试，超时不重试。
+ * 最后一次的失败响应原样返回，由调用方解析错误；最后一次的异常原样抛出。
+ */
+export const requestWithRetry = async (
+  payload: RequestModePayload,
+  { policy = { ...DEFAULT_RETRY_POLICY, maxAttempts: apiConfig.getRetryCount() + 1 }, onRetry }: RetryOptions = {}
+): Promise<Response> => {
+  for (let attempt = 1; ; attempt += 1) {
+    let response: Response;
+    try {
+      response = await requestWithMode(payload);
+    } catch (error) {
+      // 只重试连接失败等传输错误；超时（已等待很久）与用户取消直接抛出，由故障转移处理
+      if (!isTransportError(error) || payload.signal?.aborted || attempt >= policy.maxAttempts) throw error;
+      const delayMs = getRetryDelay(policy, attempt + 1, null) ?? 0;
+      await scheduleRetry({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs }, payload.signal, onRetry);
+      continue;
+    }
+
+    if (response.ok || attempt >= policy.maxAttempts || !isRetryableStatus(policy, response.status)) {
+      return response;
+    }
+
+    const delayMs = getRetryDelay(policy, attempt + 1, parseRetryAfter(response.headers.get('retry-after')));
+    if (delayMs == null) return response;
+
+    // 丢弃失败响应的响应体，释放连接
+    await response.body?.cancel().catch(() => undefined);
+    await scheduleRetry(
+      { attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, status: response.status },
+      payload.signal,
+      onRetry
+    );
+  }
+};
@@ -0,0 +1,94 @@
+/**
+ * 请求重试策略：对限流、服务端临时错误与网络错误按指数退避（带随机抖动）重试，优先遵循 Retry-After。
+ * 4xx 参数 / 鉴权错误重试无意义，只重试 429。
+ */
+
+export type RetryPolicy = {
+  /**
+   * 总尝试次数（含首次请求），1 表示不重试
+   */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryStatuses: number[];
+};
+
+export type RetryStatus = {
+  /**
+   * 即将进行的第几次尝试（从 2 开始）
+   */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  /**
+   * 触发重试的 HTTP 状态码；网络错误时为空
+   */
+  status?: number;
+  /**
+   * waiting：正在等待 delayMs 后重试；retrying：等待结束，已重新发出请求
+   */
+  phase: 'waiting' | 'retrying';
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  retryStatuses: [429, 500, 502, 503, 504],
+};
+
+// Retry-After 超过该值时不再等待，直接返回错误
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期），无法解析时返回 null
+ */
+export const parseRetryAfter = (value: string | null, nowMs: number = Date.now()): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - nowMs);
+};
+
+/**
+ * 计算第 attempt 次尝试前的等待时间；返回 null 表示不应重试
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number, retryAfterMs: number | null): number | null => {
+  if (retryAfterMs != null) {
+    return retryAfterMs > MAX_RETRY_AFTER_MS ? null : retryAfterMs;
+  }
+
+  // 全抖动：在 [0.5, 1] × 指数退避值之间随机，避免多个请求同时重试
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 2));
+  return Math.round(exponential * (0.5 + Math.random() * 0.5));
+};
+
+export const isRetryableStatus = (policy: RetryPolicy, status: number): boolean => policy.retryStatuses.includes(status);
+
+/**
+ * 等待指定时间；期间收到取消信号时立即以 AbortError 结束
+ */
+export const waitForRetry = (delayMs: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abortError = () => new DOMException('Aborted', 'AbortError');
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
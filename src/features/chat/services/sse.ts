@@ -0,0 +1,41 @@
+const EVENT_SEPARATOR = /\r?\n\r?\n/;
+
+const extractEventData = (block: string): string | null => {
+  const dataLines = block
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).replace(/^ /, ''));
+
+  return dataLines.length > 0 ? dataLines.join('\n') : null;
+};
+
+/**
+ * 逐个读取 SSE（text/event-stream）事件的 data 字段。
+ * 多行 data 会按规范以换行拼接；注释行与其它字段会被忽略。
+ */
+export async function* readSseData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const blocks = buffer.split(EVENT_SEPARATOR);
+      buffer = done ? '' : blocks.pop() || '';
+
+      for (const block of blocks) {
+        const data = extractEventData(block);
+        if (data != null) yield data;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,3 +1,5 @@
+import type { GeminiGroundingMetadata, GeminiSafetySetting, GeminiSamplingParams, GeminiTokenUsage } from "@/types/gemini"
+
 export type UploadItem = {
   id: string
   name: string
@@ -7,6 +9,7 @@ export type UploadItem = {
   width?: number
   height?: number
   aspectRatio?: number
+  isMask?: boolean            // OpenAI Images API 编辑时作为蒙版（透明区域为重绘部分），不作为参考图发送
 }
 
 export type ChatMode = "generate" | "edit" | "search"
@@ -18,17 +21,110 @@ export interface RetryContext {
   mode: ChatMode
   prompt: string
   uploadDataUrls: string[]
-  uploadItems: Array<{ base64: string; mimeType: string }>
+  uploadItems: Array<{ base64: string; mimeType: string; isMask?: boolean }>
+  variations?: number         // 同一提示词并行生成的变体数量
+  compareTargetIds?: string[] // 对比模式的目标 ID（不保存 Key，重试时从设置中读取）
+  safetySettings?: GeminiSafetySetting[] // 发送时的安全设置，重试沿用同一阈值
+  generationParams?: GeminiSamplingParams // 发送时的采样参数，重新生成沿用同一组参数
+}
+
+// 回复片段：文本或图片，按模型返回顺序排列
+export type ChatMessagePart = {
+  text?: string
+  thought?: boolean
+  image?: { data: string; mimeType?: string }
+  thoughtSignature?: string   // 重建 history 时原样带回
+}
+
+export interface SafetyRating {
+  category: string
+  probability: string
+  blocked?: boolean
+}
+
+// 回复被拦截或非正常结束（finishReason / promptFeedback.blockReason）的说明
+export interface FinishInfo {
+  reason: string
+  blocked: boolean            // 没有返回任何内容；否则为部分内容
+  message?: string
+  safetyRatings?: SafetyRating[]
+}
+
+// 批量生成中的一个候选结果
+export interface ChatMessageVariant {
+  text: string
+  parts?: ChatMessagePart[]
+  imageData?: string
+  error?: string              // 该变体请求失败时的错误信息
+  label?: string              // 对比模式：目标名称（接口类型 · 模型）
+  latencyMs?: number          // 请求耗时
+  finishInfo?: FinishInfo
+  groundingMetadata?: GeminiGroundingMetadata
+  generationParams?: GeminiSamplingParams // 该变体实际使用的采样参数（批量生成时种子依次递增）
+}
+
+// 故障转移前失败的配置
+export interface FailoverRecord {
+  profileName: string
+  error: string
+}
+
+// 单次请求的 token 用量及所用模型（按模型计价）
+export interface TokenUsage extends GeminiTokenUsage {
+  model: string
+}
+
+// 生成该回复时使用的配置档案与模型
+export interface MessageSource {
+  profileId?: string
+  profileName?: string
+  apiType: "gemini" | "openai" | "openai-images"
+  model: string
+  failoverFrom?: FailoverRecord[] // 自动切换前依次失败的配置
+}
+
+// 错误分类
+export type ChatErrorKind =
+  | "auth"
+  | "quota"
+  | "safety"
+  | "invalid-argument"
+  | "timeout"
+  | "network"
+  | "proxy-not-allowlisted"
+  | "cors"
+  | "server"
+  | "unknown"
+
+// 错误消息上可执行的处理建议
+export type ChatErrorAction = "open-settings" | "switch-to-server" | "reduce-image-size"
+
+export interface ChatErrorInfo {
+  kind: ChatErrorKind
+  status?: number
+  hint?: string
+  actions: ChatErrorAction[]
 }
 
 export interface ChatMessage {
   id: string
   role: ChatRole
   text: string
-  parts?: Array<{ text: string }>
+  parts?: ChatMessagePart[]
   images?: string[]           // 用户上传的参考图
-  imageData?: string          // AI生成的图片 (base64)
+  imageData?: string          // AI生成的最后一张图片 (base64)，旧记录只有该字段
   isError?: boolean
+  errorInfo?: ChatErrorInfo   // 错误分类与处理建议
+  finishInfo?: FinishInfo     // 被拦截 / 截断时的说明
+  groundingMetadata?: GeminiGroundingMetadata // 联网搜索的查询词、来源与引用
+  usage?: TokenUsage[]        // 生成该回复的各次请求用量（批量 / 对比为多条）
+  isStreaming?: boolean       // 流式响应接收中
+  isCancelled?: boolean       // 用户主动取消的生成
+  variants?: ChatMessageVariant[] // 批量生成的全部变体
+  selectedVariant?: number    // 当前选用的变体（其内容同步到 text/parts/imageData）
+  isComparison?: boolean      // 变体来自对比模式，按列展示
+  source?: MessageSource      // 生成该回复的配置档案
+  generationParams?: GeminiSamplingParams // 生成该回复时的采样参数
   retryContext?: RetryContext // 错误消息的重试上下文
   timestamp: string
 }
@@ -44,6 +140,8 @@ export type GeminiContentPart = {
   inline_data?: GeminiInlineData
   inlineData?: GeminiInlineData
   thought?: boolean
+  thoughtSignature?: string
+  thought_signature?: string
 }
 
 export type GeminiContent = {
@@ -1,7 +1,19 @@
+import type { GeminiSafetySetting } from '@/types/gemini';
+import { normalizeSafetySettings } from './safety';
+
 const API_URL_KEY = 'gemini_api_url';
 const API_KEY_KEY = 'gemini_api_key';
 const API_TYPE_KEY = 'api_type';
 const REQUEST_MODE_KEY = 'request_mode';
+const STREAM_RESPONSE_KEY = 'stream_response';
+const INCLUDE_THOUGHTS_KEY = 'include_thoughts';
+const RETRY_COUNT_KEY = 'retry_count';
+const SAFETY_SETTINGS_KEY = 'gemini_safety_settings';
+const COMPARE_TARGETS_KEY = 'compare_targets';
+const PROFILES_KEY = 'api_profiles';
+const ACTIVE_PROFILE_KEY = 'active_profile_id';
+const FAILOVER_PROFILE_IDS_KEY = 'failover_profile_ids';
+const SHOW_ALL_MODELS_KEY = 'show_all_models';
 
 // Legacy key (backward compatibility)
 export const STORAGE_KEY_MODEL = 'chat_model';
@@ -9,6 +21,9 @@ export const STORAGE_KEY_MODEL = 'chat_model';
 const GEMINI_MODEL_KEY = 'gemini_model';
 const OPENAI_MODEL_KEY = 'openai_model';
 const OPENAI_MODEL_LIST_KEY = 'openai_model_list';
+const OPENAI_IMAGES_MODEL_KEY = 'openai_images_model';
+const OPENAI_IMAGE_OPTIONS_KEY = 'openai_image_options';
+const FETCHED_MODELS_KEY = 'fetched_models';
 
 // OpenAI 兼容模式的预设模型列表
 export const OPENAI_PRESET_MODELS = [
@@ -26,12 +41,109 @@ export type ModelName = string;
 
 const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-image-preview';
 const DEFAULT_OPENAI_MODEL: OpenAIModelName = 'gemini-3-pro-image-preview';
+const DEFAULT_OPENAI_IMAGES_MODEL = 'gpt-image-1';
 
-export type ApiType = 'gemini' | 'openai';
+/**
+ * gemini：Gemini 原生格式；openai：OpenAI 兼容的 Chat Completions；
+ * openai-images：OpenAI Images API（/v1/images/generations 与 /v1/images/edits）
+ */
+export type ApiType = 'gemini' | 'openai' | 'openai-images';
 export type RequestMode = 'client' | 'server';
 
-const isApiType = (value: unknown): value is ApiType => value === 'gemini' || value === 'openai';
+/**
+ * OpenAI 兼容格式下画幅与分辨率的传递方式（各中转站不同）：none 不发送；extra-body 把 JSON 模板合并进请求体；
+ * model-suffix 在模型名后追加后缀；prompt-hint 在提示词末尾追加说明
+ */
+export type OpenAIImageOptionsMode = 'none' | 'extra-body' | 'model-suffix' | 'prompt-hint';
+
+export type OpenAIImageOptions = {
+  mode: OpenAIImageOptionsMode;
+  /**
+   * 支持 {aspectRatio}、{imageSize}、{size} 占位符；为空时使用该方式的默认模板
+   */
+  template: string;
+};
+
+export const DEFAULT_OPENAI_IMAGE_OPTIONS: OpenAIImageOptions = { mode: 'none', template: '' };
+
+/**
+ * 一次请求所需的完整连接信息；未显式传入时使用当前设置
+ */
+export type ApiTarget = {
+  apiType: ApiType;
+  url: string;
+  key: string;
+  model: string;
+  requestMode: RequestMode;
+  /**
+   * 仅 OpenAI 兼容格式使用；缺省时不发送画幅与分辨率
+   */
+  imageOptions?: OpenAIImageOptions;
+};
+
+/**
+ * 对比模式中的一个目标
+ */
+export type CompareTarget = ApiTarget & {
+  id: string;
+};
+
+/**
+ * 命名的服务商配置；激活时写入上面的单一配置项，其余代码无需感知
+ */
+export type ApiProfile = ApiTarget & {
+  id: string;
+  name: string;
+};
+
+/**
+ * 从服务商接口获取的可用模型（按配置档案缓存）
+ */
+export type FetchedModelList = {
+  models: string[];
+  fetchedAt: string;
+};
+
+export const MIN_COMPARE_TARGETS = 2;
+export const MAX_COMPARE_TARGETS = 4;
+
+export const DEFAULT_RETRY_COUNT = 3;
+export const MAX_RETRY_COUNT = 5;
+
+export const API_TYPE_LABELS: Record<ApiType, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI',
+  'openai-images': 'OpenAI Images',
+};
+
+// 各接口类型支持的功能：Chat Completions 不支持编辑上一张图片；只有 Gemini 支持联网搜索
+export const supportsImageEdit = (apiType: ApiType): boolean => apiType !== 'openai';
+export const supportsSearch = (apiType: ApiType): boolean => apiType === 'gemini';
+// 只有 Images API 的编辑接口接受蒙版
+export const supportsMask = (apiType: ApiType): boolean => apiType === 'openai-images';
+// 是否把画幅与分辨率随请求发送（Images API 映射为 size 参数；OpenAI 兼容格式取决于配置的传递方式）
+export const supportsImageOptions = (target: Pick<ApiTarget, 'apiType' | 'imageOptions'>): boolean =>
+  target.apiType !== 'openai' || (target.imageOptions?.mode ?? 'none') !== 'none';
+
+const isApiType = (value: unknown): value is ApiType =>
+  value === 'gemini' || value === 'openai' || value === 'openai-images';
 const isRequestMode = (value: unknown): value is RequestMode => value === 'client' || value === 'server';
+const isImageOptionsMode = (value: unknown): value is OpenAIImageOptionsMode =>
+  value === 'none' || value === 'extra-body' || value === 'model-suffix' || value === 'prompt-hint';
+
+// 模型列表接口不标明输出模态，按模型名判断是否为图片模型（gemini-*-image、gpt-image、dall-e、flux、SD 系列等）
+const IMAGE_MODEL_PATTERN = /image|dall-e|flux|stable-diffusion|sdxl|^sd[\d-]|midjourney/i;
+
+export const isImageModelName = (name: string): boolean => IMAGE_MODEL_PATTERN.test(name);
+
+const normalizeImageOptions = (value: unknown): OpenAIImageOptions => {
+  if (!value || typeof value !== 'object') return DEFAULT_OPENAI_IMAGE_OPTIONS;
+  const { mode, template } = value as Record<string, unknown>;
+  return {
+    mode: isImageOptionsMode(mode) ? mode : 'none',
+    template: typeof template === 'string' ? template.trim() : '',
+  };
+};
 
 const safeGetItem = (key: string): string | null => {
   try {
@@ -212,6 +324,289 @@ const setOpenAIModel = (model: string): void => {
   safeSetItem(OPENAI_MODEL_KEY, normalized);
 };
 
+/**
+ * 模型缓存按配置档案区分；没有配置档案时按 API 类型 + URL 区分
+ */
+const getModelCacheKey = (target: Pick<ApiTarget, 'apiType' | 'url'>, profileId?: string): string =>
+  profileId || `${target.apiType}:${target.url.trim().replace(/\/$/, '')}`;
+
+const readFetchedModels = (): Record<string, FetchedModelList> => {
+  const raw = safeGetItem(FETCHED_MODELS_KEY);
+  if (!raw) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, FetchedModelList>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const currentModelCacheKey = (): string =>
+  getModelCacheKey(
+    { apiType: apiConfig.getType(), url: apiConfig.getUrl() },
+    safeGetItem(ACTIVE_PROFILE_KEY) || undefined
+  );
+
+const getFetchedModels = (cacheKey: string = currentModelCacheKey()): FetchedModelList | null => {
+  const entry = readFetchedModels()[cacheKey];
+  if (!entry || typeof entry !== 'object') return null;
+  return { models: normalizeModelList(entry.models), fetchedAt: typeof entry.fetchedAt === 'string' ? entry.fetchedAt : '' };
+};
+
+const setFetchedModels = (models: string[], cacheKey: string = currentModelCacheKey()): void => {
+  const cache = readFetchedModels();
+  cache[cacheKey] = { models: normalizeModelList(models), fetchedAt: new Date().toISOString() };
+  safeSetItem(FETCHED_MODELS_KEY, JSON.stringify(cache));
+};
+
+const removeFetchedModels = (cacheKey: string): void => {
+  const cache = readFetchedModels();
+  if (!(cacheKey in cache)) return;
+  delete cache[cacheKey];
+  safeSetItem(FETCHED_MODELS_KEY, JSON.stringify(cache));
+};
+
+/**
+ * 模型下拉框的选项：手动维护的模型在前（OpenAI 模型列表 / 当前 Gemini 模型），其后是从接口获取的模型；
+ * 获取的模型默认只显示图片模型，开启「显示全部模型」后全部显示
+ */
+const getModelOptions = (): string[] => {
+  const apiType = apiConfig.getType();
+  const manual =
+    apiType === 'openai'
+      ? getOpenAIModelList()
+      : [apiType === 'openai-images' ? getOpenAIImagesModel() : getGeminiModel()];
+  const fetched = getFetchedModels()?.models || [];
+  return normalizeModelList([...manual, ...(apiConfig.getShowAllModels() ? fetched : fetched.filter(isImageModelName))]);
+};
+
+const getOpenAIImagesModel = (): string => {
+  const model = safeGetItem(OPENAI_IMAGES_MODEL_KEY);
+  const normalized = model ? normalizeModelName(model) : '';
+  return normalized || DEFAULT_OPENAI_IMAGES_MODEL;
+};
+
+const setOpenAIImagesModel = (model: string): void => {
+  const normalized = normalizeModelName(model);
+  if (!normalized) return;
+  safeSetItem(OPENAI_IMAGES_MODEL_KEY, normalized);
+};
+
+const getOpenAIImageOptions = (): OpenAIImageOptions => {
+  const raw = safeGetItem(OPENAI_IMAGE_OPTIONS_KEY);
+  if (!raw) return DEFAULT_OPENAI_IMAGE_OPTIONS;
+
+  try {
+    return normalizeImageOptions(JSON.parse(raw));
+  } catch {
+    return DEFAULT_OPENAI_IMAGE_OPTIONS;
+  }
+};
+
+const setOpenAIImageOptions = (options: OpenAIImageOptions): void => {
+  safeSetItem(OPENAI_IMAGE_OPTIONS_KEY, JSON.stringify(normalizeImageOptions(options)));
+};
+
+const normalizeCompareTargets = (list: unknown): CompareTarget[] => {
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item) => ({
+      id: typeof item.id === 'string' && item.id ? item.id : `target_${Math.random().toString(36).slice(2, 9)}`,
+      apiType: isApiType(item.apiType) ? item.apiType : 'gemini',
+      url: typeof item.url === 'string' ? item.url.trim() : '',
+      key: typeof item.key === 'string' ? item.key.trim() : '',
+      model: typeof item.model === 'string' ? normalizeModelName(item.model) : '',
+      requestMode: isRequestMode(item.requestMode) ? item.requestMode : 'client',
+      ...(item.imageOptions ? { imageOptions: normalizeImageOptions(item.imageOptions) } : {}),
+    }))
+    .slice(0, MAX_COMPARE_TARGETS);
+};
+
+const getCompareTargets = (): CompareTarget[] => {
+  const raw = safeGetItem(COMPARE_TARGETS_KEY);
+  if (!raw) return [];
+
+  try {
+    return normalizeCompareTargets(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+};
+
+const setCompareTargets = (targets: CompareTarget[]): void => {
+  safeSetItem(COMPARE_TARGETS_KEY, JSON.stringify(normalizeCompareTargets(targets)));
+};
+
+const createProfileId = () => `profile_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+const normalizeProfiles = (list: unknown): ApiProfile[] => {
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .map((item, idx) => ({
+      id: typeof item.id === 'string' && item.id ? item.id : createProfileId(),
+      name: typeof item.name === 'string' && item.name.trim() ? item.name.trim() : `配置 ${idx + 1}`,
+      apiType: isApiType(item.apiType) ? item.apiType : 'gemini',
+      url: typeof item.url === 'string' ? item.url.trim() : '',
+      key: typeof item.key === 'string' ? item.key.trim() : '',
+      model: typeof item.model === 'string' ? normalizeModelName(item.model) : '',
+      requestMode: isRequestMode(item.requestMode) ? item.requestMode : 'client',
+      ...(item.imageOptions ? { imageOptions: normalizeImageOptions(item.imageOptions) } : {}),
+    }));
+};
+
+const writeProfiles = (profiles: ApiProfile[]): void => {
+  safeSetItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+const readProfiles = (): ApiProfile[] => {
+  const raw = safeGetItem(PROFILES_KEY);
+  if (!raw) return [];
+
+  try {
+    return normalizeProfiles(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+};
+
+// 从当前（单一）配置生成一个配置档案
+const captureCurrentProfile = (id: string, name: string): ApiProfile => ({
+  ...apiConfig.getCurrentTarget(),
+  id,
+  name,
+});
+
+/**
+ * 首次使用配置档案时，把已有的单一配置保存为「默认配置」
+ */
+const getProfiles = (): ApiProfile[] => {
+  const profiles = readProfiles();
+  if (profiles.length > 0 || !apiConfig.isConfigured()) return profiles;
+
+  const migrated = captureCurrentProfile(createProfileId(), '默认配置');
+  writeProfiles([migrated]);
+  safeSetItem(ACTIVE_PROFILE_KEY, migrated.id);
+  return [migrated];
+};
+
+const getActiveProfile = (): ApiProfile | null => {
+  const profiles = getProfiles();
+  const activeId = safeGetItem(ACTIVE_PROFILE_KEY);
+  return profiles.find((profile) => profile.id === activeId) || null;
+};
+
+const applyProfile = (profile: ApiProfile): void => {
+  apiConfig.setType(profile.apiType);
+  apiConfig.setUrl(profile.url);
+  apiConfig.setKey(profile.key);
+  apiConfig.setRequestMode(profile.requestMode);
+  setOpenAIImageOptions(profile.imageOptions ?? DEFAULT_OPENAI_IMAGE_OPTIONS);
+  if (profile.model) {
+    if (profile.apiType === 'openai') {
+      setOpenAIModel(profile.model);
+      addOpenAIModel(profile.model);
+    } else if (profile.apiType === 'openai-images') {
+      setOpenAIImagesModel(profile.model);
+    } else {
+      setGeminiModel(profile.model);
+    }
+  }
+  safeSetItem(ACTIVE_PROFILE_KEY, profile.id);
+};
+
+const activateProfile = (id: string): ApiProfile | null => {
+  const profile = getProfiles().find((item) => item.id === id);
+  if (!profile) return null;
+  applyProfile(profile);
+  return profile;
+};
+
+/**
+ * 把当前配置写回激活的配置档案（设置保存、切换模型后调用）；没有激活档案时新建一个
+ */
+const syncActiveProfile = (name?: string): ApiProfile => {
+  const profiles = getProfiles();
+  const active = getActiveProfile();
+  const next = captureCurrentProfile(active?.id || createProfileId(), name?.trim() || active?.name || '默认配置');
+
+  writeProfiles(active ? profiles.map((profile) => (profile.id === next.id ? next : profile)) : [...profiles, next]);
+  safeSetItem(ACTIVE_PROFILE_KEY, next.id);
+  return next;
+};
+
+const createProfile = (name: string, source?: ApiProfile): ApiProfile => {
+  const profile: ApiProfile = source
+    ? { ...source, id: createProfileId(), name }
+    : {
+        id: createProfileId(),
+        name,
+        apiType: 'gemini',
+        url: '',
+        key: '',
+        model: DEFAULT_GEMINI_MODEL,
+        requestMode: 'client',
+      };
+  writeProfiles([...getProfiles(), profile]);
+  applyProfile(profile);
+  return profile;
+};
+
+const duplicateProfile = (id: string): ApiProfile | null => {
+  const source = getProfiles().find((profile) => profile.id === id);
+  return source ? createProfile(`${source.name} 副本`, source) : null;
+};
+
+/**
+ * 删除配置档案；删除的是激活档案时自动切换到剩余的第一个
+ */
+const deleteProfile = (id: string): ApiProfile | null => {
+  const remaining = getProfiles().filter((profile) => profile.id !== id);
+  writeProfiles(remaining);
+  removeFetchedModels(id);
+
+  if (safeGetItem(ACTIVE_PROFILE_KEY) !== id) return getActiveProfile();
+  if (remaining.length === 0) {
+    safeRemoveItem(ACTIVE_PROFILE_KEY);
+    return null;
+  }
+  applyProfile(remaining[0]);
+  return remaining[0];
+};
+
+const getFailoverChain = (): string[] => {
+  const raw = safeGetItem(FAILOVER_PROFILE_IDS_KEY);
+  if (!raw) return [];
+
+  try {
+    return normalizeModelList(JSON.parse(raw));
+  } catch {
+    return [];
+  }
+};
+
+const setFailoverChain = (ids: string[]): void => {
+  safeSetItem(FAILOVER_PROFILE_IDS_KEY, JSON.stringify(normalizeModelList(ids)));
+};
+
+/**
+ * 当前配置失败后依次尝试的备用配置（已排除当前激活的配置与已删除的配置）
+ */
+const getFailoverProfiles = (): ApiProfile[] => {
+  const profiles = getProfiles();
+  const activeId = safeGetItem(ACTIVE_PROFILE_KEY);
+  return getFailoverChain()
+    .filter((id) => id !== activeId)
+    .map((id) => profiles.find((profile) => profile.id === id))
+    .filter((profile): profile is ApiProfile => !!profile);
+};
+
 // Backward compatibility (existing imports): MODEL_LIST is no longer hardcoded.
 // Prefer `apiConfig.getOpenAIModelList()` for new code.
 export const MODEL_LIST: ReadonlyArray<string> = new Proxy([] as string[], {
@@ -237,6 +632,59 @@ export type ApiConfig = {
    */
   getRequestMode: () => RequestMode;
 
+  /**
+   * 是否以流式（SSE）方式接收响应，边生成边展示
+   */
+  getStreamResponse: () => boolean;
+  setStreamResponse: (enabled: boolean) => void;
+
+  /**
+   * Gemini：是否请求返回思考过程（thinkingConfig.includeThoughts）
+   */
+  getIncludeThoughts: () => boolean;
+  setIncludeThoughts: (enabled: boolean) => void;
+
+  /**
+   * 遇到 429 / 5xx 时的自动重试次数（不含首次请求），0 表示不重试
+   */
+  getRetryCount: () => number;
+  setRetryCount: (count: number) => void;
+
+  /**
+   * Gemini 安全设置（各危害类别的拦截阈值），为空时使用服务端默认值
+   */
+  getSafetySettings: () => GeminiSafetySetting[];
+  setSafetySettings: (settings: GeminiSafetySetting[]) => void;
+
+  /**
+   * 当前设置对应的请求目标
+   */
+  getCurrentTarget: () => ApiTarget;
+
+  /**
+   * 对比模式的目标列表（2~4 个）
+   */
+  getCompareTargets: () => CompareTarget[];
+  setCompareTargets: (targets: CompareTarget[]) => void;
+
+  /**
+   * 命名配置档案（URL / Key / API 类型 / 请求方式 / 默认模型）
+   */
+  getProfiles: () => ApiProfile[];
+  getActiveProfile: () => ApiProfile | null;
+  activateProfile: (id: string) => ApiProfile | null;
+  syncActiveProfile: (name?: string) => ApiProfile;
+  createProfile: (name: string) => ApiProfile;
+  duplicateProfile: (id: string) => ApiProfile | null;
+  deleteProfile: (id: string) => ApiProfile | null;
+
+  /**
+   * 故障转移链：当前配置返回 5xx / 网络错误时按顺序尝试的备用配置 ID
+   */
+  getFailoverChain: () => string[];
+  setFailoverChain: (ids: string[]) => void;
+  getFailoverProfiles: () => ApiProfile[];
+
   /**
    * Gemini 模型：支持预设列表选择和自定义模型输入
    */
@@ -257,6 +705,31 @@ export type ApiConfig = {
   removeOpenAIModel: (model: string) => void;
   updateOpenAIModel: (oldModel: string, newModel: string) => void;
 
+  /**
+   * OpenAI Images API 模型（如 gpt-image-1、dall-e-3）
+   */
+  getOpenAIImagesModel: () => string;
+  setOpenAIImagesModel: (model: string) => void;
+
+  /**
+   * OpenAI 兼容格式下画幅与分辨率的传递方式（随配置档案保存）
+   */
+  getOpenAIImageOptions: () => OpenAIImageOptions;
+  setOpenAIImageOptions: (options: OpenAIImageOptions) => void;
+
+  /**
+   * 从接口获取的模型列表缓存；默认读写当前激活的配置档案
+   */
+  getModelCacheKey: (target: Pick<ApiTarget, 'apiType' | 'url'>, profileId?: string) => string;
+  getFetchedModels: (cacheKey?: string) => FetchedModelList | null;
+  setFetchedModels: (models: string[], cacheKey?: string) => void;
+  getModelOptions: () => string[];
+  /**
+   * 模型下拉框是否显示获取到的全部模型（默认只显示名称像图片模型的）
+   */
+  getShowAllModels: () => boolean;
+  setShowAllModels: (enabled: boolean) => void;
+
   /**
    * Backward compatibility: aliases to the current ApiType model getter/setter.
    */
@@ -282,6 +755,61 @@ export const apiConfig: ApiConfig = {
     const stored = safeGetItem(REQUEST_MODE_KEY);
     return isRequestMode(stored) ? stored : 'client';
   },
+  getStreamResponse: () => safeGetItem(STREAM_RESPONSE_KEY) === 'true',
+  setStreamResponse: (enabled: boolean) => {
+    safeSetItem(STREAM_RESPONSE_KEY, String(enabled));
+  },
+  getIncludeThoughts: () => safeGetItem(INCLUDE_THOUGHTS_KEY) === 'true',
+  setIncludeThoughts: (enabled: boolean) => {
+    safeSetItem(INCLUDE_THOUGHTS_KEY, String(enabled));
+  },
+  getRetryCount: () => {
+    const stored = Number.parseInt(safeGetItem(RETRY_COUNT_KEY) || '', 10);
+    return Number.isNaN(stored) ? DEFAULT_RETRY_COUNT : Math.min(MAX_RETRY_COUNT, Math.max(0, stored));
+  },
+  setRetryCount: (count: number) => {
+    safeSetItem(RETRY_COUNT_KEY, String(Math.min(MAX_RETRY_COUNT, Math.max(0, Math.round(count)))));
+  },
+  getSafetySettings: () => {
+    const raw = safeGetItem(SAFETY_SETTINGS_KEY);
+    if (!raw) return [];
+
+    try {
+      return normalizeSafetySettings(JSON.parse(raw));
+    } catch {
+      return [];
+    }
+  },
+  setSafetySettings: (settings: GeminiSafetySetting[]) => {
+    safeSetItem(SAFETY_SETTINGS_KEY, JSON.stringify(normalizeSafetySettings(settings)));
+  },
+
+  getCurrentTarget: () => {
+    const apiType = apiConfig.getType();
+    return {
+      apiType,
+      url: apiConfig.getUrl(),
+      key: apiConfig.getKey(),
+      model: apiConfig.getModel(),
+      requestMode: apiConfig.getRequestMode(),
+      ...(apiType === 'openai' ? { imageOptions: getOpenAIImageOptions() } : {}),
+    };
+  },
+
+  getCompareTargets,
+  setCompareTargets,
+
+  getProfiles,
+  getActiveProfile,
+  activateProfile,
+  syncActiveProfile,
+  createProfile: (name: string) => createProfile(name),
+  duplicateProfile,
+  deleteProfile,
+
+  getFailoverChain,
+  setFailoverChain,
+  getFailoverProfiles,
 
   getGeminiModel,
   setGeminiModel,
@@ -294,12 +822,36 @@ export const apiConfig: ApiConfig = {
   removeOpenAIModel,
   updateOpenAIModel,
 
-  getModel: () => (apiConfig.getType() === 'openai' ? getOpenAIModel() : getGeminiModel()),
+  getOpenAIImagesModel,
+  setOpenAIImagesModel,
+
+  getOpenAIImageOptions,
+  setOpenAIImageOptions,
+
+  getModelCacheKey,
+  getFetchedModels,
+  setFetchedModels,
+  getModelOptions,
+  getShowAllModels: () => safeGetItem(SHOW_ALL_MODELS_KEY) === 'true',
+  setShowAllModels: (enabled: boolean) => {
+    safeSetItem(SHOW_ALL_MODELS_KEY, String(enabled));
+  },
+
+  getModel: () => {
+    const apiType = apiConfig.getType();
+    if (apiType === 'openai') return getOpenAIModel();
+    return apiType === 'openai-images' ? getOpenAIImagesModel() : getGeminiModel();
+  },
   setModel: (model: ModelName) => {
-    if (apiConfig.getType() === 'openai') {
+    const apiType = apiConfig.getType();
+    if (apiType === 'openai') {
       setOpenAIModel(model);
       return;
     }
+    if (apiType === 'openai-images') {
+      setOpenAIImagesModel(model);
+      return;
+    }
     setGeminiModel(model);
   },
 
@@ -323,10 +875,22 @@ export const apiConfig: ApiConfig = {
     safeRemoveItem(API_KEY_KEY);
     safeRemoveItem(API_TYPE_KEY);
     safeRemoveItem(REQUEST_MODE_KEY);
+    safeRemoveItem(STREAM_RESPONSE_KEY);
+    safeRemoveItem(INCLUDE_THOUGHTS_KEY);
+    safeRemoveItem(RETRY_COUNT_KEY);
+    safeRemoveItem(SAFETY_SETTINGS_KEY);
+    safeRemoveItem(COMPARE_TARGETS_KEY);
+    safeRemoveItem(PROFILES_KEY);
+    safeRemoveItem(ACTIVE_PROFILE_KEY);
+    safeRemoveItem(FAILOVER_PROFILE_IDS_KEY);
+    safeRemoveItem(SHOW_ALL_MODELS_KEY);
 
     safeRemoveItem(STORAGE_KEY_MODEL);
     safeRemoveItem(GEMINI_MODEL_KEY);
     safeRemoveItem(OPENAI_MODEL_KEY);
     safeRemoveItem(OPENAI_MODEL_LIST_KEY);
+    safeRemoveItem(OPENAI_IMAGES_MODEL_KEY);
+    safeRemoveItem(OPENAI_IMAGE_OPTIONS_KEY);
+    safeRemoveItem(FETCHED_MODELS_KEY);
   },
 };
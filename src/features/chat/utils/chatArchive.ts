@@ -0,0 +1,224 @@
+import type { AspectRatio, ChatMessage, ImageSize, RetryContext } from '../types';
+import { createSessionId } from './session';
+import { hasGenerationParams, normalizeGenerationParams } from './generationParams';
+import { normalizeSafetySettings } from './safety';
+import {
+  deriveConversationTitle,
+  hashImage,
+  mapPayloadImages,
+  parseDataUrl,
+  type PersistedChatPayload,
+} from './chatStorage';
+
+/**
+ * 对话导出 / 导入（JSON 归档）
+ *
+ * 归档包含消息、请求上下文（history）、画幅等设置，以及对话中用到的全部图片。
+ * 图片按内容哈希去重后单独放在 images 中，payload 里只保留 archive-image:<hash> 引用。
+ */
+
+const ARCHIVE_FORMAT = 'gemini-chat-archive';
+const ARCHIVE_IMAGE_REF_PREFIX = 'archive-image:';
+const OBJECT_URL_REVOKE_DELAY_MS = 60 * 1000;
+
+export type ChatArchiveImage = {
+  mimeType: string;
+  data: string; // base64
+};
+
+export type ChatArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  payload: PersistedChatPayload;
+  images: Record<string, ChatArchiveImage>;
+};
+
+const isArchiveRef = (value: string): boolean => value.startsWith(ARCHIVE_IMAGE_REF_PREFIX);
+
+export const createChatArchive = async (payload: PersistedChatPayload): Promise<ChatArchive> => {
+  const images: Record<string, ChatArchiveImage> = {};
+
+  const archivedPayload = await mapPayloadImages(payload, async (value, kind, mimeType) => {
+    const source = kind === 'dataUrl' ? parseDataUrl(value) : { mimeType, data: value };
+    if (!source?.data) return value;
+
+    const hash = await hashImage(source.data);
+    if (!images[hash]) {
+      images[hash] = { mimeType: source.mimeType || 'image/png', data: source.data };
+    }
+    return `${ARCHIVE_IMAGE_REF_PREFIX}${hash}`;
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    payload: { ...archivedPayload, title: deriveConversationTitle(payload) },
+    images,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean): boolean =>
+  Array.isArray(value) && value.every(check);
+
+const isMessagePart = (part: unknown): boolean =>
+  isRecord(part) &&
+  isOptionalString(part.text) &&
+  (part.image === undefined ||
+    (isRecord(part.image) && typeof part.image.data === 'string' && isOptionalString(part.image.mimeType)));
+
+const isChatMessage = (message: unknown): boolean =>
+  isRecord(message) &&
+  typeof message.id === 'string' &&
+  !!message.id &&
+  (message.role === 'user' || message.role === 'assistant' || message.role === 'system') &&
+  typeof message.text === 'string' &&
+  (message.parts === undefined || isArrayOf(message.parts, isMessagePart)) &&
+  (message.images === undefined || isArrayOf(message.images, (image) => typeof image === 'string')) &&
+  isOptionalString(message.imageData) &&
+  (message.variants === undefined ||
+    isArrayOf(
+      message.variants,
+      (variant) =>
+        isRecord(variant) &&
+        typeof variant.text === 'string' &&
+        (variant.parts === undefined || isArrayOf(variant.parts, isMessagePart)) &&
+        isOptionalString(variant.imageData)
+    ));
+
+const isInlineData = (value: unknown): boolean =>
+  value === undefined || (isRecord(value) && typeof value.mime_type === 'string' && typeof value.data === 'string');
+
+const isHistoryEntry = (entry: unknown): boolean =>
+  isRecord(entry) &&
+  (entry.role === 'user' || entry.role === 'model') &&
+  isArrayOf(entry.parts, (part) => isRecord(part) && isOptionalString(part.text) && isInlineData(part.inline_data));
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '4:3', '3:4', '9:16', '5:4'];
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+const isUploadItem = (item: unknown): boolean =>
+  isRecord(item) &&
+  typeof item.base64 === 'string' &&
+  typeof item.mimeType === 'string' &&
+  (item.isMask === undefined || typeof item.isMask === 'boolean');
+
+/**
+ * 重试上下文格式错误时返回 undefined（丢弃重试入口，消息本身照常导入）；
+ * 安全设置与采样参数按各自的规则过滤非法项
+ */
+const toRetryContext = (value: unknown): RetryContext | undefined => {
+  if (!isRecord(value)) return undefined;
+  if (value.mode !== 'generate' && value.mode !== 'edit' && value.mode !== 'search') return undefined;
+  if (typeof value.prompt !== 'string') return undefined;
+  if (!isArrayOf(value.uploadDataUrls, (src) => typeof src === 'string')) return undefined;
+  if (!isArrayOf(value.uploadItems, isUploadItem)) return undefined;
+
+  const safetySettings = normalizeSafetySettings(value.safetySettings);
+  const generationParams = normalizeGenerationParams(value.generationParams);
+  return {
+    mode: value.mode,
+    prompt: value.prompt,
+    uploadDataUrls: value.uploadDataUrls as string[],
+    uploadItems: value.uploadItems as RetryContext['uploadItems'],
+    ...(typeof value.variations === 'number' && Number.isInteger(value.variations) && value.variations > 1
+      ? { variations: value.variations }
+      : {}),
+    ...(isArrayOf(value.compareTargetIds, (id) => typeof id === 'string')
+      ? { compareTargetIds: value.compareTargetIds as string[] }
+      : {}),
+    ...(safetySettings.length > 0 ? { safetySettings } : {}),
+    ...(hasGenerationParams(generationParams) ? { generationParams } : {}),
+  };
+};
+
+const isArchiveImage = (image: unknown): boolean =>
+  isRecord(image) && typeof image.data === 'string' && typeof image.mimeType === 'string';
+
+/**
+ * 校验归档结构：消息、上下文与图片逐项检查，避免格式错误的数据进入会话后在渲染或下一次请求时出错
+ */
+export const parseChatArchive = (raw: string): ChatArchive | null => {
+  if (!raw) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) return null;
+    if (parsed.format !== ARCHIVE_FORMAT) return null;
+    if (parsed.version !== 1) return null;
+
+    const { payload, images } = parsed;
+    if (!isRecord(payload)) return null;
+    if (!isArrayOf(payload.messages, isChatMessage)) return null;
+    if (payload.history !== undefined && !isArrayOf(payload.history, isHistoryEntry)) return null;
+    if (!isOptionalString(payload.prompt) || !isOptionalString(payload.title)) return null;
+    if (payload.lastImageData !== undefined && payload.lastImageData !== null && typeof payload.lastImageData !== 'string') {
+      return null;
+    }
+    if (!isRecord(images) || !Object.values(images).every(isArchiveImage)) return null;
+
+    // 以下字段格式错误时丢弃，由导入后的默认值代替
+    const messages = (payload.messages as ChatMessage[]).map(({ retryContext, ...message }) => {
+      const context = toRetryContext(retryContext);
+      return context ? { ...message, retryContext: context } : message;
+    });
+    return {
+      ...(parsed as ChatArchive),
+      payload: {
+        ...(payload as PersistedChatPayload),
+        messages,
+        aspectRatio: ASPECT_RATIOS.includes(payload.aspectRatio as AspectRatio)
+          ? (payload.aspectRatio as AspectRatio)
+          : '1:1',
+        imageSize: IMAGE_SIZES.includes(payload.imageSize as ImageSize) ? (payload.imageSize as ImageSize) : '2K',
+      },
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 还原归档中的图片，并分配新的 sessionId（作为新会话导入，不覆盖已有会话）
+ */
+export const restoreChatArchive = async (archive: ChatArchive): Promise<PersistedChatPayload> => {
+  const restored = await mapPayloadImages(archive.payload, async (value, kind) => {
+    if (!isArchiveRef(value)) return value;
+
+    const image = archive.images[value.slice(ARCHIVE_IMAGE_REF_PREFIX.length)];
+    if (!image?.data) return '';
+    return kind === 'dataUrl' ? `data:${image.mimeType};base64,${image.data}` : image.data;
+  });
+
+  return {
+    ...restored,
+    sessionId: createSessionId(),
+    history: restored.history || [],
+    prompt: restored.prompt || '',
+    forceImageGuidance: Boolean(restored.forceImageGuidance),
+  };
+};
+
+const toFileName = (title: string): string => {
+  const safeTitle = title.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40) || 'chat';
+  return `gemini-chat-${safeTitle}-${Date.now()}.json`;
+};
+
+export const downloadChatArchive = (archive: ChatArchive): void => {
+  const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = toFileName(archive.payload.title || '');
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // 立即释放会让部分浏览器（Safari、旧版 Firefox）取消下载，稍后再释放
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_REVOKE_DELAY_MS);
+};
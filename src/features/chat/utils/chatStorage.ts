@@ -0,0 +1,587 @@
+import type { AspectRatio, ChatMessage, ChatMessagePart, ImageSize, RetryContext } from '../types';
+import type { GeminiMessage, GeminiSamplingParams } from '@/types/gemini';
+
+/**
+ * 对话持久化（IndexedDB）
+ *
+ * - conversations：每个会话一条记录（keyPath: id = sessionId），消息中的图片只保存引用；
+ *   标题保存在 payload.title，置顶与创建时间保存在记录上
+ * - images：图片以 Blob 形式保存，key 为内容哈希，相同图片只存一份
+ *
+ * 旧版本把整段对话（含 base64 图片）写在 localStorage 的 gemini_chat_persist_v1 中，
+ * 首次读取时会自动迁移到 IndexedDB 并删除旧记录。
+ */
+
+const LEGACY_CHAT_PERSIST_STORAGE_KEY = 'gemini_chat_persist_v1';
+
+const DB_NAME = 'gemini_chat';
+const DB_VERSION = 1;
+const CONVERSATION_STORE = 'conversations';
+const IMAGE_STORE = 'images';
+
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+export type PersistedChatPayload = {
+  sessionId: string;
+  title?: string;
+  messages: ChatMessage[];
+  history: GeminiMessage[];
+  prompt: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  forceImageGuidance: boolean;
+  systemInstruction?: string;
+  generationParams?: GeminiSamplingParams;
+  lastImageData: string | null;
+};
+
+export type PersistedChat = {
+  version: 1;
+  savedAt: string;
+  payload: PersistedChatPayload;
+};
+
+type ConversationRecord = {
+  id: string;
+  version: 2;
+  createdAt?: string;
+  savedAt: string;
+  pinned?: boolean;
+  payload: PersistedChatPayload; // 图片字段均为 idb-image:<hash> 引用
+};
+
+/**
+ * 会话列表项（不含消息内容）
+ */
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  pinned: boolean;
+  messageCount: number;
+};
+
+const DEFAULT_CONVERSATION_TITLE = '新对话';
+const TITLE_MAX_LENGTH = 40;
+
+/**
+ * 会话标题：优先使用保存的标题，否则取第一条用户消息的首行
+ */
+export const deriveConversationTitle = (payload: Pick<PersistedChatPayload, 'title' | 'messages'>): string => {
+  const saved = payload.title?.trim();
+  if (saved) return saved;
+
+  const firstUserText = (payload.messages || []).find((m) => m.role === 'user' && m.text?.trim())?.text || '';
+  const firstLine = firstUserText
+    .replace(/^(✏️|🔍)\s*/u, '')
+    .trim()
+    .split('\n')[0];
+
+  return firstLine ? firstLine.slice(0, TITLE_MAX_LENGTH) : DEFAULT_CONVERSATION_TITLE;
+};
+
+const toSummary = (record: ConversationRecord): ConversationSummary => ({
+  id: record.id,
+  title: deriveConversationTitle(record.payload),
+  createdAt: record.createdAt || record.savedAt,
+  updatedAt: record.savedAt,
+  pinned: Boolean(record.pinned),
+  messageCount: (record.payload.messages || []).length,
+});
+
+const compareSummaries = (a: ConversationSummary, b: ConversationSummary): number => {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  return b.updatedAt.localeCompare(a.updatedAt);
+};
+
+type ImageRecord = {
+  hash: string;
+  blob: Blob;
+};
+
+export const parsePersistedChat = (raw: string): PersistedChat | null => {
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw) as PersistedChat;
+    if (!parsed || typeof parsed !== 'object') return null;
+    if (parsed.version !== 1) return null;
+    if (!parsed.savedAt || typeof parsed.savedAt !== 'string') return null;
+    if (!parsed.payload || typeof parsed.payload !== 'object') return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// IndexedDB 基础封装
+// ---------------------------------------------------------------------------
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('当前环境不支持 IndexedDB'));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATION_STORE)) {
+        db.createObjectStore(CONVERSATION_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+        db.createObjectStore(IMAGE_STORE, { keyPath: 'hash' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+};
+
+// ---------------------------------------------------------------------------
+// 图片编码 / 哈希
+// ---------------------------------------------------------------------------
+
+const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const fallbackHash = (value: string): string => {
+  // FNV-1a（非安全上下文下 crypto.subtle 不可用时使用）
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (let i = 0; i < value.length; i += 1) {
+    const code = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193);
+    h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+  }
+  return `fnv_${(h1 >>> 0).toString(16)}${(h2 >>> 0).toString(16)}_${value.length}`;
+};
+
+/**
+ * 哈希缓存以 base64 本身为 key（按采样内容做 key 会冲突：PNG 的文件头与 IEND 结尾都相同），
+ * 因此按 key 的总长度限制缓存大小，超出时淘汰最久未用的条目，避免已删除会话的大图一直留在内存中
+ */
+const HASH_CACHE_MAX_CHARS = 32 * 1024 * 1024;
+const hashCache = new Map<string, string>();
+let hashCacheChars = 0;
+
+const rememberHash = (base64: string, hash: string) => {
+  if (base64.length > HASH_CACHE_MAX_CHARS) return;
+  hashCache.set(base64, hash);
+  hashCacheChars += base64.length;
+  for (const key of hashCache.keys()) {
+    if (hashCacheChars <= HASH_CACHE_MAX_CHARS) break;
+    hashCache.delete(key);
+    hashCacheChars -= key.length;
+  }
+};
+
+export const hashImage = async (base64: string): Promise<string> => {
+  const cached = hashCache.get(base64);
+  if (cached) {
+    // 重新插入，使其成为最近使用的条目
+    hashCache.delete(base64);
+    hashCache.set(base64, cached);
+    return cached;
+  }
+
+  let hash: string;
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(base64));
+    hash = Array.from(new Uint8Array(digest))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('');
+  } else {
+    hash = fallbackHash(base64);
+  }
+
+  // 并发计算同一图片时可能已被写入
+  if (!hashCache.has(base64)) rememberHash(base64, hash);
+  return hash;
+};
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } | null => {
+  const match = dataUrl.match(/^data:(.+?);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+const isImageRef = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(IMAGE_REF_PREFIX);
+
+// ---------------------------------------------------------------------------
+// 对话中的图片字段遍历
+// ---------------------------------------------------------------------------
+
+export type ImageFieldKind = 'dataUrl' | 'base64';
+type ImageFieldMapper = (value: string, kind: ImageFieldKind, mimeType: string) => Promise<string>;
+
+/**
+ * 按字段位置遍历对话中所有图片并替换：
+ * - messages[].images：用户上传的 data URL
+ * - messages[].imageData / lastImageData：生成图片 base64（PNG）
+ * - messages[].parts[].image.data：回复中按顺序排列的图片 base64
+ * - messages[].variants[]：批量生成的各个变体（imageData 与 parts 同上）
+ * - messages[].retryContext：重试用的上传图片（uploadDataUrls 为 data URL，uploadItems[].base64 为 base64）
+ * - history[].parts[].inline_data.data：请求上下文中的 base64
+ */
+export const mapPayloadImages = async (
+  payload: PersistedChatPayload,
+  mapper: ImageFieldMapper
+): Promise<PersistedChatPayload> => {
+  const mapValue = (value: string | undefined | null, kind: ImageFieldKind, mimeType = 'image/png') =>
+    value ? mapper(value, kind, mimeType) : Promise.resolve(value ?? undefined);
+
+  const mapParts = (parts?: ChatMessagePart[]) =>
+    parts
+      ? Promise.all(
+          parts.map(async (part) =>
+            part.image?.data
+              ? {
+                  ...part,
+                  image: {
+                    ...part.image,
+                    data: await mapper(part.image.data, 'base64', part.image.mimeType || 'image/png'),
+                  },
+                }
+              : part
+          )
+        )
+      : Promise.resolve(undefined);
+
+  const mapRetryContext = async (context?: RetryContext): Promise<RetryContext | undefined> => {
+    if (!context) return undefined;
+    const uploadDataUrls = await Promise.all((context.uploadDataUrls || []).map((src) => mapper(src, 'dataUrl', '')));
+    const uploadItems = await Promise.all(
+      (context.uploadItems || []).map(async (item) => ({
+        ...item,
+        base64: await mapper(item.base64, 'base64', item.mimeType || 'image/png'),
+      }))
+    );
+    // 读取不到的图片直接丢弃，避免重试时发送空图片
+    return {
+      ...context,
+      uploadDataUrls: uploadDataUrls.filter(Boolean),
+      uploadItems: uploadItems.filter((item) => item.base64),
+    };
+  };
+
+  const messages = await Promise.all(
+    (payload.messages || []).map(async (message) => ({
+      ...message,
+      images: message.images
+        ? (await Promise.all(message.images.map((src) => mapper(src, 'dataUrl', '')))).filter(Boolean)
+        : undefined,
+      imageData: (await mapValue(message.imageData, 'base64')) || undefined,
+      parts: await mapParts(message.parts),
+      variants: message.variants
+        ? await Promise.all(
+            message.variants.map(async (variant) => ({
+              ...variant,
+              imageData: (await mapValue(variant.imageData, 'base64')) || undefined,
+              parts: await mapParts(variant.parts),
+            }))
+          )
+        : undefined,
+      retryContext: await mapRetryContext(message.retryContext),
+    }))
+  );
+
+  const history = await Promise.all(
+    (payload.history || []).map(async (entry) => ({
+      ...entry,
+      parts: await Promise.all(
+        entry.parts.map(async (part) => {
+          const inlineData = part.inline_data || part.inlineData;
+          if (!inlineData?.data) return part;
+          const { inlineData: _camel, ...rest } = part;
+          return {
+            ...rest,
+            inline_data: {
+              mime_type: inlineData.mime_type,
+              data: await mapper(inlineData.data, 'base64', inlineData.mime_type || 'image/png'),
+            },
+          };
+        })
+      ),
+    }))
+  );
+
+  return {
+    ...payload,
+    messages,
+    history,
+    lastImageData: (await mapValue(payload.lastImageData, 'base64')) || null,
+  };
+};
+
+const dehydratePayload = async (
+  payload: PersistedChatPayload
+): Promise<{ payload: PersistedChatPayload; images: Map<string, Blob> }> => {
+  const images = new Map<string, Blob>();
+
+  const dehydrated = await mapPayloadImages(payload, async (value, kind, mimeType) => {
+    if (isImageRef(value)) return value;
+
+    const source = kind === 'dataUrl' ? parseDataUrl(value) : { mimeType, data: value };
+    if (!source?.data) return value;
+
+    const hash = await hashImage(source.data);
+    if (!images.has(hash)) {
+      images.set(hash, new Blob([base64ToBytes(source.data)], { type: source.mimeType || 'image/png' }));
+    }
+    return `${IMAGE_REF_PREFIX}${hash}`;
+  });
+
+  return { payload: dehydrated, images };
+};
+
+const hydratePayload = async (db: IDBDatabase, payload: PersistedChatPayload): Promise<PersistedChatPayload> => {
+  const cache = new Map<string, Blob | undefined>();
+
+  const readBlob = async (hash: string): Promise<Blob | undefined> => {
+    if (cache.has(hash)) return cache.get(hash);
+    const tx = db.transaction(IMAGE_STORE, 'readonly');
+    const record = (await promisifyRequest(tx.objectStore(IMAGE_STORE).get(hash))) as ImageRecord | undefined;
+    cache.set(hash, record?.blob);
+    return record?.blob;
+  };
+
+  return mapPayloadImages(payload, async (value, kind) => {
+    if (!isImageRef(value)) return value;
+
+    const blob = await readBlob(value.slice(IMAGE_REF_PREFIX.length));
+    if (!blob) return '';
+
+    const base64 = await blobToBase64(blob);
+    return kind === 'dataUrl' ? `data:${blob.type || 'image/png'};base64,${base64}` : base64;
+  });
+};
+
+const collectImageRefs = (payload: PersistedChatPayload, refs: Set<string>) => {
+  const visit = (value: unknown) => {
+    if (isImageRef(value)) refs.add(value.slice(IMAGE_REF_PREFIX.length));
+  };
+
+  (payload.messages || []).forEach((message) => {
+    (message.images || []).forEach(visit);
+    visit(message.imageData);
+    (message.parts || []).forEach((part) => visit(part.image?.data));
+    (message.variants || []).forEach((variant) => {
+      visit(variant.imageData);
+      (variant.parts || []).forEach((part) => visit(part.image?.data));
+    });
+    (message.retryContext?.uploadDataUrls || []).forEach(visit);
+    (message.retryContext?.uploadItems || []).forEach((item) => visit(item.base64));
+  });
+  (payload.history || []).forEach((entry) =>
+    entry.parts.forEach((part) => visit((part.inline_data || part.inlineData)?.data))
+  );
+  visit(payload.lastImageData);
+};
+
+// ---------------------------------------------------------------------------
+// 读写
+// ---------------------------------------------------------------------------
+
+const readAllConversations = async (db: IDBDatabase): Promise<ConversationRecord[]> => {
+  const tx = db.transaction(CONVERSATION_STORE, 'readonly');
+  return (await promisifyRequest(tx.objectStore(CONVERSATION_STORE).getAll())) as ConversationRecord[];
+};
+
+/**
+ * 删除不再被任何会话引用的图片
+ */
+const pruneOrphanImages = async (db: IDBDatabase): Promise<void> => {
+  const refs = new Set<string>();
+  (await readAllConversations(db)).forEach((record) => collectImageRefs(record.payload, refs));
+
+  const tx = db.transaction(IMAGE_STORE, 'readwrite');
+  const store = tx.objectStore(IMAGE_STORE);
+  const keys = (await promisifyRequest(store.getAllKeys())) as string[];
+  keys.filter((key) => !refs.has(key)).forEach((key) => store.delete(key));
+  await transactionDone(tx);
+};
+
+const putConversation = async (db: IDBDatabase, payload: PersistedChatPayload, savedAt: string) => {
+  const { payload: dehydrated, images } = await dehydratePayload(payload);
+
+  const tx = db.transaction([CONVERSATION_STORE, IMAGE_STORE], 'readwrite');
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  const conversationStore = tx.objectStore(CONVERSATION_STORE);
+
+  const existingKeys = new Set((await promisifyRequest(imageStore.getAllKeys())) as string[]);
+  images.forEach((blob, hash) => {
+    if (!existingKeys.has(hash)) {
+      const record: ImageRecord = { hash, blob };
+      imageStore.put(record);
+    }
+  });
+
+  const existing = (await promisifyRequest(conversationStore.get(payload.sessionId))) as ConversationRecord | undefined;
+  const record: ConversationRecord = {
+    id: payload.sessionId,
+    version: 2,
+    createdAt: existing?.createdAt || existing?.savedAt || savedAt,
+    savedAt,
+    pinned: existing?.pinned,
+    payload: dehydrated,
+  };
+  conversationStore.put(record);
+  await transactionDone(tx);
+};
+
+let didMigrateLegacyChat = false;
+
+/**
+ * 把 localStorage 中的 v1 对话记录迁移到 IndexedDB（只执行一次）
+ */
+const migrateLegacyChatIfNeeded = async (db: IDBDatabase): Promise<void> => {
+  if (didMigrateLegacyChat) return;
+  didMigrateLegacyChat = true;
+
+  let raw = '';
+  try {
+    raw = window.localStorage?.getItem(LEGACY_CHAT_PERSIST_STORAGE_KEY) || '';
+  } catch {
+    return;
+  }
+  if (!raw) return;
+
+  const legacy = parsePersistedChat(raw);
+  if (legacy) {
+    await putConversation(db, legacy.payload, legacy.savedAt);
+  }
+
+  try {
+    window.localStorage?.removeItem(LEGACY_CHAT_PERSIST_STORAGE_KEY);
+  } catch (error) {
+    console.warn('无法清理旧版对话记录：', error);
+  }
+};
+
+const getDatabase = async (): Promise<IDBDatabase> => {
+  const db = await openDatabase();
+  await migrateLegacyChatIfNeeded(db);
+  return db;
+};
+
+// 写入按顺序排队，避免较早的写入晚于较新的写入完成
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = writeQueue.then(task, task);
+  writeQueue = next.catch(() => undefined);
+  return next;
+};
+
+const updateRecord = async (
+  db: IDBDatabase,
+  id: string,
+  update: (record: ConversationRecord) => ConversationRecord
+): Promise<void> => {
+  const tx = db.transaction(CONVERSATION_STORE, 'readwrite');
+  const store = tx.objectStore(CONVERSATION_STORE);
+  const record = (await promisifyRequest(store.get(id))) as ConversationRecord | undefined;
+  if (record) {
+    store.put(update(record));
+  }
+  await transactionDone(tx);
+};
+
+export const chatStorage = {
+  /**
+   * 会话列表：置顶优先，其余按最近更新时间倒序
+   */
+  list: async (): Promise<ConversationSummary[]> => {
+    const db = await getDatabase();
+    return (await readAllConversations(db)).map(toSummary).sort(compareSummaries);
+  },
+
+  read: async (id: string): Promise<PersistedChat | null> => {
+    const db = await getDatabase();
+    const tx = db.transaction(CONVERSATION_STORE, 'readonly');
+    const record = (await promisifyRequest(tx.objectStore(CONVERSATION_STORE).get(id))) as
+      | ConversationRecord
+      | undefined;
+    if (!record) return null;
+
+    return {
+      version: 1,
+      savedAt: record.savedAt,
+      payload: await hydratePayload(db, record.payload),
+    };
+  },
+
+  write: (payload: PersistedChatPayload): Promise<{ savedAt: string }> =>
+    enqueue(async () => {
+      const db = await getDatabase();
+      const savedAt = new Date().toISOString();
+      await putConversation(db, payload, savedAt);
+      await pruneOrphanImages(db);
+      return { savedAt };
+    }),
+
+  rename: (id: string, title: string): Promise<void> =>
+    enqueue(async () => {
+      const db = await getDatabase();
+      await updateRecord(db, id, (record) => ({
+        ...record,
+        payload: { ...record.payload, title: title.trim() || undefined },
+      }));
+    }),
+
+  setPinned: (id: string, pinned: boolean): Promise<void> =>
+    enqueue(async () => {
+      const db = await getDatabase();
+      await updateRecord(db, id, (record) => ({ ...record, pinned }));
+    }),
+
+  remove: (id: string): Promise<void> =>
+    enqueue(async () => {
+      const db = await getDatabase();
+      const tx = db.transaction(CONVERSATION_STORE, 'readwrite');
+      tx.objectStore(CONVERSATION_STORE).delete(id);
+      await transactionDone(tx);
+      await pruneOrphanImages(db);
+    }),
+};
@@ -0,0 +1,69 @@
+import type { GeminiSamplingParams } from '@/types/gemini';
+
+/**
+ * 采样参数（温度、Top P / Top K、种子、候选数）：未设置的字段不随请求发送
+ */
+
+export type GenerationParamKey = keyof GeminiSamplingParams;
+
+type GenerationParamLimit = {
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+};
+
+export const GENERATION_PARAM_KEYS: GenerationParamKey[] = ['temperature', 'topP', 'topK', 'seed', 'candidateCount'];
+
+export const GENERATION_PARAM_LIMITS: Record<GenerationParamKey, GenerationParamLimit> = {
+  temperature: { min: 0, max: 2, step: 0.1 },
+  topP: { min: 0, max: 1, step: 0.05 },
+  topK: { min: 1, max: 100, step: 1, integer: true },
+  seed: { min: 0, max: 2147483647, step: 1, integer: true },
+  candidateCount: { min: 1, max: 4, step: 1, integer: true },
+};
+
+export const GENERATION_PARAM_LABELS: Record<GenerationParamKey, string> = {
+  temperature: '温度',
+  topP: 'Top P',
+  topK: 'Top K',
+  seed: '种子',
+  candidateCount: '候选数',
+};
+
+const normalizeValue = (key: GenerationParamKey, value: unknown): number | undefined => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  const { min, max, integer } = GENERATION_PARAM_LIMITS[key];
+  const clamped = Math.min(max, Math.max(min, integer ? Math.round(value) : value));
+  // 候选数为 1 即默认行为，不单独发送
+  if (key === 'candidateCount' && clamped === 1) return undefined;
+  return clamped;
+};
+
+/**
+ * 过滤非法值并限制在允许范围内；返回的对象只包含已设置的字段
+ */
+export const normalizeGenerationParams = (value: unknown): GeminiSamplingParams => {
+  if (!value || typeof value !== 'object') return {};
+
+  const source = value as Record<string, unknown>;
+  const params: GeminiSamplingParams = {};
+  GENERATION_PARAM_KEYS.forEach((key) => {
+    const normalized = normalizeValue(key, source[key]);
+    if (normalized !== undefined) params[key] = normalized;
+  });
+  return params;
+};
+
+export const hasGenerationParams = (params?: GeminiSamplingParams): boolean =>
+  !!params && GENERATION_PARAM_KEYS.some((key) => params[key] !== undefined);
+
+/**
+ * 用于消息上的简短展示，如「温度 0.7 · 种子 42」
+ */
+export const formatGenerationParams = (params?: GeminiSamplingParams): string =>
+  params
+    ? GENERATION_PARAM_KEYS.filter((key) => params[key] !== undefined)
+        .map((key) => `${GENERATION_PARAM_LABELS[key]} ${params[key]}`)
+        .join(' · ')
+    : '';
@@ -0,0 +1,45 @@
+import type { AspectRatio, ImageSize } from '../types';
+
+/**
+ * 把画幅与分辨率映射为 OpenAI Images API 的 size 参数（WIDTHxHEIGHT）
+ *
+ * OpenAI 官方模型只接受固定尺寸，按画幅方向取最接近的一档；其他模型（中转站上的 Gemini、Flux 等）
+ * 按长边 1K=1024 / 2K=2048 / 4K=4096 计算，短边按比例取 64 的倍数。
+ */
+
+const LONG_EDGE: Record<ImageSize, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096,
+};
+
+type Orientation = 'square' | 'landscape' | 'portrait';
+
+const FIXED_SIZES: Array<{ pattern: RegExp; sizes: Record<Orientation, string> }> = [
+  { pattern: /^gpt-image/i, sizes: { square: '1024x1024', landscape: '1536x1024', portrait: '1024x1536' } },
+  { pattern: /^dall-e-3/i, sizes: { square: '1024x1024', landscape: '1792x1024', portrait: '1024x1792' } },
+  // dall-e-2 只支持正方形
+  { pattern: /^dall-e-2/i, sizes: { square: '1024x1024', landscape: '1024x1024', portrait: '1024x1024' } },
+];
+
+const parseAspectRatio = (aspectRatio: AspectRatio): [number, number] => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width > 0 && height > 0 ? [width, height] : [1, 1];
+};
+
+const toOrientation = ([width, height]: [number, number]): Orientation =>
+  width === height ? 'square' : width > height ? 'landscape' : 'portrait';
+
+const roundTo64 = (value: number): number => Math.max(64, Math.round(value / 64) * 64);
+
+export const toOpenAIImageSize = (model: string, aspectRatio: AspectRatio, imageSize: ImageSize): string => {
+  const ratio = parseAspectRatio(aspectRatio);
+  const fixed = FIXED_SIZES.find(({ pattern }) => pattern.test(model.trim()));
+  if (fixed) return fixed.sizes[toOrientation(ratio)];
+
+  const longEdge = LONG_EDGE[imageSize] ?? LONG_EDGE['1K'];
+  const [width, height] = ratio;
+  return width >= height
+    ? `${longEdge}x${roundTo64((longEdge * height) / width)}`
+    : `${roundTo64((longEdge * width) / height)}x${longEdge}`;
+};
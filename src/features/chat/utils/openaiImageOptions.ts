@@ -0,0 +1,83 @@
+import type { AspectRatio, ImageSize } from '../types';
+import type { OpenAIImageOptions, OpenAIImageOptionsMode } from './apiConfig';
+import { toOpenAIImageSize } from './imageSize';
+
+/**
+ * OpenAI 兼容格式没有画幅与分辨率参数，按配置档案选择的方式把它们带给中转站
+ */
+
+export const IMAGE_OPTIONS_MODE_LABELS: Record<OpenAIImageOptionsMode, string> = {
+  none: '不发送（固定 1:1 / 1K）',
+  'extra-body': '额外请求体字段',
+  'model-suffix': '模型名后缀',
+  'prompt-hint': '提示词说明',
+};
+
+export const DEFAULT_IMAGE_OPTIONS_TEMPLATES: Record<OpenAIImageOptionsMode, string> = {
+  none: '',
+  // Gemini 风格的 generationConfig 透传，多数中转站原样转发给上游
+  'extra-body': '{"generationConfig":{"imageConfig":{"aspectRatio":"{aspectRatio}","imageSize":"{imageSize}"}}}',
+  'model-suffix': '-{imageSize}',
+  'prompt-hint': '画面比例 {aspectRatio}，分辨率 {imageSize}（{size}）',
+};
+
+type ImageOptionValues = Record<'aspectRatio' | 'imageSize' | 'size', string>;
+
+const fillTemplate = (template: string, values: ImageOptionValues): string =>
+  template.replace(/\{(aspectRatio|imageSize|size)\}/g, (_, key: keyof ImageOptionValues) => values[key]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * 额外请求体模板必须是 JSON 对象；无效时返回 null
+ */
+export const parseExtraBodyTemplate = (template: string): Record<string, unknown> | null => {
+  try {
+    const parsed: unknown = JSON.parse(template);
+    return isPlainObject(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// 只替换字符串值中的占位符，避免替换结果破坏 JSON 结构
+const fillJson = (value: unknown, values: ImageOptionValues): unknown => {
+  if (typeof value === 'string') return fillTemplate(value, values);
+  if (Array.isArray(value)) return value.map((item) => fillJson(item, values));
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillJson(item, values)]));
+  }
+  return value;
+};
+
+export type MappedOpenAIRequest = {
+  model: string;
+  prompt: string;
+  /**
+   * 合并进请求体的字段；模板无效时为 null
+   */
+  extraBody: Record<string, unknown> | null;
+};
+
+export const applyOpenAIImageOptions = (
+  options: OpenAIImageOptions | undefined,
+  { model, prompt, aspectRatio, imageSize }: { model: string; prompt: string; aspectRatio: AspectRatio; imageSize: ImageSize }
+): MappedOpenAIRequest => {
+  const mode = options?.mode ?? 'none';
+  if (mode === 'none') return { model, prompt, extraBody: {} };
+
+  const template = options?.template || DEFAULT_IMAGE_OPTIONS_TEMPLATES[mode];
+  const values: ImageOptionValues = { aspectRatio, imageSize, size: toOpenAIImageSize(model, aspectRatio, imageSize) };
+
+  if (mode === 'extra-body') {
+    const parsed = parseExtraBodyTemplate(template);
+    return { model, prompt, extraBody: parsed && (fillJson(parsed, values) as Record<string, unknown>) };
+  }
+  if (mode === 'model-suffix') {
+    // 模型名中不宜出现冒号与大写：16:9 写作 16x9，2K 写作 2k
+    const suffix = fillTemplate(template, { ...values, aspectRatio: aspectRatio.replace(':', 'x') }).toLowerCase();
+    return { model: `${model}${suffix}`, prompt, extraBody: {} };
+  }
+  return { model, prompt: `${prompt}\n\n${fillTemplate(template, values)}`, extraBody: {} };
+};
@@ -0,0 +1,110 @@
+import type { GeminiTokenUsage } from '@/types/gemini';
+
+/**
+ * 模型价格表（美元 / 百万 token），用于估算费用；用户可自行修改（localStorage）
+ *
+ * 思考 token 按输出价格计费；图片输出价格未设置时按输出价格计算。
+ */
+
+const PRICE_TABLE_STORAGE_KEY = 'model_price_table';
+
+export type ModelPrice = {
+  model: string;
+  input: number;
+  output: number;
+  imageOutput?: number;
+};
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-3-pro-image-preview', input: 2, output: 12, imageOutput: 120 },
+  { model: 'gemini-2.5-flash-image', input: 0.3, output: 2.5, imageOutput: 30 },
+];
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const normalizePrice = (item: unknown): ModelPrice | null => {
+  if (!item || typeof item !== 'object') return null;
+  const source = item as Record<string, unknown>;
+  const model = typeof source.model === 'string' ? source.model.trim() : '';
+  if (!model || !isPrice(source.input) || !isPrice(source.output)) return null;
+  return {
+    model,
+    input: source.input,
+    output: source.output,
+    imageOutput: isPrice(source.imageOutput) ? source.imageOutput : undefined,
+  };
+};
+
+const readPriceTable = (): ModelPrice[] | null => {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const raw = window.localStorage?.getItem(PRICE_TABLE_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return null;
+    return parsed.map(normalizePrice).filter((item): item is ModelPrice => item !== null);
+  } catch (error) {
+    console.warn('无法从 localStorage 读取价格表：', error);
+    return null;
+  }
+};
+
+export const priceTable = {
+  list: (): ModelPrice[] => readPriceTable() ?? DEFAULT_MODEL_PRICES,
+
+  /**
+   * 保存前丢弃不完整的行；同名模型只保留第一条
+   */
+  save: (prices: ModelPrice[]): void => {
+    if (typeof window === 'undefined') return;
+
+    const normalized: ModelPrice[] = [];
+    prices.forEach((item) => {
+      const price = normalizePrice(item);
+      if (price && !normalized.some((existing) => existing.model === price.model)) normalized.push(price);
+    });
+    try {
+      window.localStorage?.setItem(PRICE_TABLE_STORAGE_KEY, JSON.stringify(normalized));
+    } catch (error) {
+      console.warn('无法写入价格表到 localStorage：', error);
+    }
+  },
+
+  reset: (): void => {
+    if (typeof window === 'undefined') return;
+    window.localStorage?.removeItem(PRICE_TABLE_STORAGE_KEY);
+  },
+};
+
+/**
+ * 先精确匹配模型名，再按最长前缀匹配（如 gemini-2.5-flash-image 匹配 gemini-2.5-flash-image-preview）
+ */
+export const findModelPrice = (model: string, prices: ModelPrice[] = priceTable.list()): ModelPrice | null => {
+  const name = model.trim();
+  if (!name) return null;
+  const exact = prices.find((price) => price.model === name);
+  if (exact) return exact;
+  return (
+    prices
+      .filter((price) => name.startsWith(price.model))
+      .sort((a, b) => b.model.length - a.model.length)[0] || null
+  );
+};
+
+/**
+ * 估算费用（美元）；没有对应价格时返回 null
+ */
+export const estimateCost = (usage: GeminiTokenUsage, price: ModelPrice | null): number | null => {
+  if (!price) return null;
+  const imageTokens = Math.min(usage.imageTokens, usage.outputTokens);
+  const textTokens = usage.outputTokens - imageTokens + usage.thoughtTokens;
+  return (
+    (usage.promptTokens * price.input +
+      textTokens * price.output +
+      imageTokens * (price.imageOutput ?? price.output)) /
+    1_000_000
+  );
+};
+
+export const formatCost = (cost: number): string => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
@@ -0,0 +1,58 @@
+import type { GeminiHarmBlockThreshold, GeminiHarmCategory, GeminiSafetySetting } from '@/types/gemini';
+
+/**
+ * Gemini 安全设置：按危害类别设置拦截阈值，未设置的类别使用服务端默认值
+ */
+
+export const HARM_CATEGORIES: GeminiHarmCategory[] = [
+  'HARM_CATEGORY_HARASSMENT',
+  'HARM_CATEGORY_HATE_SPEECH',
+  'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  'HARM_CATEGORY_DANGEROUS_CONTENT',
+  'HARM_CATEGORY_CIVIC_INTEGRITY',
+];
+
+export const HARM_BLOCK_THRESHOLDS: GeminiHarmBlockThreshold[] = [
+  'BLOCK_LOW_AND_ABOVE',
+  'BLOCK_MEDIUM_AND_ABOVE',
+  'BLOCK_ONLY_HIGH',
+  'BLOCK_NONE',
+  'OFF',
+];
+
+export const HARM_CATEGORY_LABELS: Record<string, string> = {
+  HARM_CATEGORY_HARASSMENT: '骚扰',
+  HARM_CATEGORY_HATE_SPEECH: '仇恨言论',
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: '色情内容',
+  HARM_CATEGORY_DANGEROUS_CONTENT: '危险内容',
+  HARM_CATEGORY_CIVIC_INTEGRITY: '公民诚信',
+};
+
+export const HARM_BLOCK_THRESHOLD_LABELS: Record<GeminiHarmBlockThreshold, string> = {
+  BLOCK_LOW_AND_ABOVE: '严格（低风险及以上拦截）',
+  BLOCK_MEDIUM_AND_ABOVE: '中等（中风险及以上拦截）',
+  BLOCK_ONLY_HIGH: '宽松（仅拦截高风险）',
+  BLOCK_NONE: '不拦截',
+  OFF: '关闭安全过滤',
+};
+
+/**
+ * 过滤非法项并按类别去重（后出现的覆盖先出现的）
+ */
+export const normalizeSafetySettings = (value: unknown): GeminiSafetySetting[] => {
+  if (!Array.isArray(value)) return [];
+
+  const byCategory = new Map<GeminiHarmCategory, GeminiHarmBlockThreshold>();
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const { category, threshold } = item as Partial<GeminiSafetySetting>;
+    if (!category || !HARM_CATEGORIES.includes(category)) continue;
+    if (!threshold || !HARM_BLOCK_THRESHOLDS.includes(threshold)) continue;
+    byCategory.set(category, threshold);
+  }
+
+  return HARM_CATEGORIES.filter((category) => byCategory.has(category)).map((category) => ({
+    category,
+    threshold: byCategory.get(category)!,
+  }));
+};
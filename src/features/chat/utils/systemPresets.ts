@@ -0,0 +1,91 @@
+/**
+ * 系统指令预设：内置若干常用人设，用户也可以把当前指令保存为自定义预设（localStorage）
+ */
+
+const CUSTOM_PRESETS_STORAGE_KEY = 'system_instruction_presets';
+
+export type SystemPreset = {
+  id: string;
+  name: string;
+  instruction: string;
+  builtIn?: boolean;
+};
+
+export const BUILT_IN_SYSTEM_PRESETS: SystemPreset[] = [
+  {
+    id: 'builtin_product_photographer',
+    name: '产品摄影师',
+    instruction:
+      '你是一名资深商业产品摄影师。生成图片时使用干净的影棚布光、柔和阴影与高细节质感，主体居中突出，背景简洁；除非特别要求，不要添加文字或水印。',
+    builtIn: true,
+  },
+  {
+    id: 'builtin_flat_icon_designer',
+    name: '扁平图标设计师',
+    instruction:
+      '你是一名扁平风格图标设计师。输出简洁的扁平化矢量风格图标：几何造型、有限的配色、无渐变与写实阴影、主体居中并留有安全边距、纯色背景。',
+    builtIn: true,
+  },
+  {
+    id: 'builtin_illustrator',
+    name: '绘本插画师',
+    instruction: '你是一名儿童绘本插画师。画面温暖柔和，色彩明快，线条圆润，人物表情生动，构图留白便于排版。',
+    builtIn: true,
+  },
+  {
+    id: 'builtin_photo_retoucher',
+    name: '修图师',
+    instruction:
+      '你是一名专业修图师。编辑图片时只修改用户明确要求的部分，保持原图的构图、光线、人物身份与风格一致，修改处过渡自然。',
+    builtIn: true,
+  },
+];
+
+const createPresetId = (): string => `preset_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+const readCustomPresets = (): SystemPreset[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const raw = window.localStorage?.getItem(CUSTOM_PRESETS_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (item): item is SystemPreset =>
+        !!item && typeof item.id === 'string' && typeof item.name === 'string' && typeof item.instruction === 'string'
+    );
+  } catch (error) {
+    console.warn('无法从 localStorage 读取系统指令预设：', error);
+    return [];
+  }
+};
+
+const writeCustomPresets = (presets: SystemPreset[]): void => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage?.setItem(CUSTOM_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.warn('无法写入系统指令预设到 localStorage：', error);
+  }
+};
+
+export const systemPresets = {
+  list: (): SystemPreset[] => [...BUILT_IN_SYSTEM_PRESETS, ...readCustomPresets()],
+
+  /**
+   * 保存为自定义预设；同名的自定义预设会被覆盖
+   */
+  save: (name: string, instruction: string): SystemPreset => {
+    const trimmedName = name.trim();
+    const custom = readCustomPresets();
+    const existing = custom.find((preset) => preset.name === trimmedName);
+    const preset: SystemPreset = { id: existing?.id || createPresetId(), name: trimmedName, instruction: instruction.trim() };
+    writeCustomPresets(existing ? custom.map((item) => (item.id === existing.id ? preset : item)) : [...custom, preset]);
+    return preset;
+  },
+
+  remove: (id: string): void => {
+    writeCustomPresets(readCustomPresets().filter((preset) => preset.id !== id));
+  },
+};
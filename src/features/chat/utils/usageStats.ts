@@ -0,0 +1,111 @@
+import type { GeminiTokenUsage } from '@/types/gemini';
+import type { TokenUsage } from '../types';
+
+/**
+ * 按天、按模型累计 token 用量（localStorage），只保留最近 90 天
+ *
+ * 这里只记录 token 数，费用在展示时按当前价格表计算，修改价格后历史统计随之更新。
+ */
+
+const USAGE_LEDGER_STORAGE_KEY = 'usage_ledger';
+const USAGE_RETENTION_DAYS = 90;
+
+export type UsageTotals = GeminiTokenUsage & {
+  requests: number;
+};
+
+export type DailyModelUsage = UsageTotals & {
+  date: string; // YYYY-MM-DD（本地时间）
+  model: string;
+};
+
+type UsageLedger = Record<string, Record<string, UsageTotals>>;
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  requests: 0,
+  promptTokens: 0,
+  outputTokens: 0,
+  thoughtTokens: 0,
+  imageTokens: 0,
+  totalTokens: 0,
+};
+
+const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const addUsage = (totals: UsageTotals, usage: GeminiTokenUsage): UsageTotals => ({
+  requests: totals.requests + 1,
+  promptTokens: totals.promptTokens + usage.promptTokens,
+  outputTokens: totals.outputTokens + usage.outputTokens,
+  thoughtTokens: totals.thoughtTokens + usage.thoughtTokens,
+  imageTokens: totals.imageTokens + usage.imageTokens,
+  totalTokens: totals.totalTokens + usage.totalTokens,
+});
+
+export const sumUsage = (usages: GeminiTokenUsage[]): UsageTotals => usages.reduce(addUsage, EMPTY_USAGE_TOTALS);
+
+const readLedger = (): UsageLedger => {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const raw = window.localStorage?.getItem(USAGE_LEDGER_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as UsageLedger) : {};
+  } catch (error) {
+    console.warn('无法从 localStorage 读取用量统计：', error);
+    return {};
+  }
+};
+
+const writeLedger = (ledger: UsageLedger): void => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage?.setItem(USAGE_LEDGER_STORAGE_KEY, JSON.stringify(ledger));
+  } catch (error) {
+    console.warn('无法写入用量统计到 localStorage：', error);
+  }
+};
+
+export const usageStats = {
+  record: (usages: TokenUsage[]): void => {
+    if (usages.length === 0) return;
+
+    const ledger = readLedger();
+    const today = toDateKey(new Date());
+    const day = { ...ledger[today] };
+    usages.forEach(({ model, ...usage }) => {
+      const key = model || 'unknown';
+      day[key] = addUsage(day[key] || EMPTY_USAGE_TOTALS, usage);
+    });
+    ledger[today] = day;
+
+    const cutoff = toDateKey(new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    Object.keys(ledger).forEach((date) => {
+      if (date < cutoff) delete ledger[date];
+    });
+    writeLedger(ledger);
+  },
+
+  /**
+   * 按日期倒序返回，同一天内按模型名排序
+   */
+  list: (): DailyModelUsage[] => {
+    const ledger = readLedger();
+    return Object.keys(ledger)
+      .sort((a, b) => b.localeCompare(a))
+      .flatMap((date) =>
+        Object.keys(ledger[date] || {})
+          .sort()
+          .map((model) => ({ ...EMPTY_USAGE_TOTALS, ...ledger[date][model], date, model }))
+      );
+  },
+
+  clear: (): void => {
+    if (typeof window === 'undefined') return;
+    window.localStorage?.removeItem(USAGE_LEDGER_STORAGE_KEY);
+  },
+};
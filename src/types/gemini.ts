@@ -10,6 +10,11 @@ export type GeminiContentPart = {
   inline_data?: GeminiInlineData;
   inlineData?: GeminiInlineData;
   thought?: boolean;
+  /**
+   * 模型输出片段上的思考签名，多轮对话时需原样放回 history，模型才能延续上一轮的推理与图片
+   */
+  thoughtSignature?: string;
+  thought_signature?: string;
 };
 
 export type GeminiMessage = {
@@ -17,27 +22,173 @@ export type GeminiMessage = {
   parts: GeminiContentPart[];
 };
 
-export type GeminiGenerationConfig = {
+/**
+ * 可选的采样参数；未设置的字段不随请求发送，由模型使用默认值
+ */
+export type GeminiSamplingParams = {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  seed?: number;
+  candidateCount?: number;
+};
+
+export type GeminiThinkingConfig = {
+  includeThoughts?: boolean;
+  thinkingBudget?: number;
+};
+
+export type GeminiGenerationConfig = GeminiSamplingParams & {
   responseModalities: Array<'TEXT' | 'IMAGE'>;
   imageConfig: {
     aspectRatio: string;
     imageSize: string;
   };
+  thinkingConfig?: GeminiThinkingConfig;
+};
+
+export type GeminiHarmCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+  | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+
+export type GeminiHarmBlockThreshold =
+  | 'BLOCK_NONE'
+  | 'BLOCK_ONLY_HIGH'
+  | 'BLOCK_MEDIUM_AND_ABOVE'
+  | 'BLOCK_LOW_AND_ABOVE'
+  | 'OFF';
+
+export type GeminiSafetySetting = {
+  category: GeminiHarmCategory;
+  threshold: GeminiHarmBlockThreshold;
+};
+
+export type GeminiSystemInstruction = {
+  parts: Array<{ text: string }>;
 };
 
 export type GeminiRequestPayload = {
+  systemInstruction?: GeminiSystemInstruction;
   contents: GeminiMessage[];
   generationConfig: GeminiGenerationConfig;
+  safetySettings?: GeminiSafetySetting[];
   tools?: Array<{ google_search: Record<string, never> }>;
 };
 
+/**
+ * 候选结束原因；除 STOP 外均表示输出被截断或被拦截
+ */
+export type GeminiFinishReason =
+  | 'FINISH_REASON_UNSPECIFIED'
+  | 'STOP'
+  | 'MAX_TOKENS'
+  | 'SAFETY'
+  | 'RECITATION'
+  | 'LANGUAGE'
+  | 'OTHER'
+  | 'BLOCKLIST'
+  | 'PROHIBITED_CONTENT'
+  | 'SPII'
+  | 'MALFORMED_FUNCTION_CALL'
+  | 'IMAGE_SAFETY'
+  | 'IMAGE_PROHIBITED_CONTENT'
+  | 'IMAGE_OTHER'
+  | 'NO_IMAGE'
+  | (string & {});
+
+/**
+ * 提示词（输入）被拦截的原因
+ */
+export type GeminiBlockReason =
+  | 'BLOCK_REASON_UNSPECIFIED'
+  | 'SAFETY'
+  | 'OTHER'
+  | 'BLOCKLIST'
+  | 'PROHIBITED_CONTENT'
+  | 'IMAGE_SAFETY'
+  | (string & {});
+
+export type GeminiSafetyRating = {
+  category: string; // HARM_CATEGORY_*
+  probability: string; // NEGLIGIBLE / LOW / MEDIUM / HIGH
+  blocked?: boolean;
+};
+
+export type GeminiPromptFeedback = {
+  blockReason?: GeminiBlockReason;
+  blockReasonMessage?: string;
+  safetyRatings?: GeminiSafetyRating[];
+};
+
+/**
+ * Google 搜索依据：来源网页
+ */
+export type GeminiGroundingChunk = {
+  web?: {
+    uri?: string;
+    title?: string;
+    domain?: string;
+  };
+};
+
+/**
+ * 回复中的一段文字及其依据的来源（groundingChunkIndices 指向 groundingChunks）
+ */
+export type GeminiGroundingSupport = {
+  segment?: {
+    partIndex?: number;
+    startIndex?: number;
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];
+};
+
+export type GeminiGroundingMetadata = {
+  webSearchQueries?: string[];
+  groundingChunks?: GeminiGroundingChunk[];
+  groundingSupports?: GeminiGroundingSupport[];
+  /**
+   * 搜索建议入口：renderedContent 为 Google 要求原样展示的 HTML 片段
+   */
+  searchEntryPoint?: {
+    renderedContent?: string;
+  };
+};
+
 export type GeminiCandidate = {
+  index?: number;
   content?: GeminiMessage;
+  finishReason?: GeminiFinishReason;
+  finishMessage?: string;
+  safetyRatings?: GeminiSafetyRating[];
+  groundingMetadata?: GeminiGroundingMetadata;
+};
+
+export type GeminiModalityTokenCount = {
+  modality?: 'TEXT' | 'IMAGE' | 'AUDIO' | 'VIDEO' | 'DOCUMENT' | (string & {});
+  tokenCount?: number;
+};
+
+export type GeminiUsageMetadata = {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number; // 不含思考
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+  totalTokenCount?: number;
+  promptTokensDetails?: GeminiModalityTokenCount[];
+  candidatesTokensDetails?: GeminiModalityTokenCount[];
 };
 
 export type GeminiResponse = {
   candidates?: GeminiCandidate[];
-  groundingMetadata?: unknown;
+  promptFeedback?: GeminiPromptFeedback;
+  usageMetadata?: GeminiUsageMetadata;
+  groundingMetadata?: GeminiGroundingMetadata; // 旧版接口放在顶层，新版在候选上
 };
 
 export type GeminiError = {
@@ -52,11 +203,55 @@ export type GeminiInlineDataInput = {
   mimeType?: string;
 };
 
+/**
+ * 模型回复中的一个片段：文本（可能是思考过程）或图片，按返回顺序排列
+ */
+export type GeminiResultPart = {
+  text?: string;
+  thought?: boolean;
+  image?: GeminiInlineDataInput;
+  thoughtSignature?: string;
+};
+
+/**
+ * 非正常结束的说明：blocked 表示没有返回任何内容，否则为部分内容
+ */
+export type GeminiFinishInfo = {
+  reason: GeminiFinishReason | GeminiBlockReason;
+  blocked: boolean;
+  message?: string;
+  safetyRatings?: GeminiSafetyRating[];
+};
+
+/**
+ * 两种接口统一后的 token 用量
+ */
+export type GeminiTokenUsage = {
+  promptTokens: number;
+  outputTokens: number; // 回复（文本 + 图片），不含思考
+  thoughtTokens: number;
+  imageTokens: number; // outputTokens 中的图片部分
+  totalTokens: number;
+};
+
 export type GeminiResult = {
   text: string;
-  parts: Array<{ text: string }>;
-  imageData: string | null;
-  thinkingImages: string[]; // 保留字段兼容性，始终为空数组
-  groundingMetadata?: unknown;
+  parts: GeminiResultPart[];
+  imageData: string | null; // 最后一张图片，完整的图文顺序见 parts
+  thinkingImages: string[]; // 思考过程中的草图（base64），同时以 thought 片段出现在 parts 中
+  groundingMetadata?: GeminiGroundingMetadata;
+  finishInfo?: GeminiFinishInfo;
+  /**
+   * candidateCount > 1 时的全部候选（按 index 排序）；history 只记录第一个候选
+   */
+  candidates?: GeminiResultCandidate[];
+  usage?: GeminiTokenUsage; // 整个请求的用量（多个候选合计）
   history: GeminiMessage[];
 };
+
+export type GeminiResultCandidate = Pick<GeminiResult, 'text' | 'parts' | 'imageData' | 'finishInfo' | 'groundingMetadata'>;
+
+/**
+ * 流式响应过程中的阶段性结果（不含最终 history）
+ */
+export type GeminiStreamUpdate = Pick<GeminiResult, 'text' | 'parts' | 'imageData'>;